@@ -0,0 +1,245 @@
+export type ApiErrorType =
+  | 'auth'
+  | 'rate-limit'
+  | 'not-found'
+  | 'server'
+  | 'network'
+  | 'invalid-response'
+  | 'aborted';
+
+const ERROR_MESSAGES: { [type in ApiErrorType]: string } = {
+  auth: 'You are not authorized to read this data, try to log in again',
+  'rate-limit': 'Too many requests to the IXON API, try again in a moment',
+  'not-found': 'The requested data could not be found',
+  server: 'The IXON API is temporarily unavailable, try again later',
+  network: 'The IXON API could not be reached, check your connection',
+  'invalid-response': 'The IXON API returned an unexpected response',
+  aborted: 'The request was cancelled',
+};
+
+/**
+ * Error of a request to the IXON API, with a message that can be shown to the user.
+ */
+export class ApiError extends Error {
+  type: ApiErrorType;
+  status: number | null;
+
+  constructor(type: ApiErrorType, status: number | null = null) {
+    super(ERROR_MESSAGES[type]);
+    this.name = 'ApiError';
+    this.type = type;
+    this.status = status;
+  }
+}
+
+export function isAbortError(error: unknown) {
+  return error instanceof ApiError && error.type === 'aborted';
+}
+
+/**
+ * Stops work that was cancelled while it waited for something else than a request, like the
+ * compute worker, with the same error as a cancelled request.
+ */
+export function throwIfAborted(signal?: AbortSignal) {
+  if (signal?.aborted) {
+    throw new ApiError('aborted');
+  }
+}
+
+export type DataListPoint = {
+  time: string;
+  values: {
+    [key: string]: number;
+  };
+};
+
+export type DataListResponse = {
+  data: {
+    points: DataListPoint[];
+  };
+};
+
+type Guard<T> = (value: unknown) => value is T;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
+
+export function isDataListResponse(body: unknown): body is DataListResponse {
+  return (
+    isRecord(body) &&
+    isRecord(body.data) &&
+    Array.isArray(body.data.points) &&
+    body.data.points.every(
+      (point) =>
+        isRecord(point) &&
+        typeof point.time === 'string' &&
+        isRecord(point.values),
+    )
+  );
+}
+
+/**
+ * Creates a guard for list endpoints, which return their items in `data`.
+ */
+export function isListResponse<T>(isItem: Guard<T>): Guard<{ data: T[] }> {
+  return (body: unknown): body is { data: T[] } =>
+    isRecord(body) && Array.isArray(body.data) && body.data.every(isItem);
+}
+
+/**
+ * Checks that the value has a string at each of the given (dotted) paths.
+ */
+export function hasStrings<T>(...paths: string[]): Guard<T> {
+  return (value: unknown): value is T =>
+    paths.every((path) => {
+      const found = path
+        .split('.')
+        .reduce<unknown>(
+          (current, key) => (isRecord(current) ? current[key] : undefined),
+          value,
+        );
+      return typeof found === 'string';
+    });
+}
+
+const MAX_RETRIES = 3;
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 30000;
+
+/**
+ * Sends requests to the IXON API. Rate limits, server errors and network failures are
+ * retried with exponential backoff, and every response body is checked before use.
+ */
+export class ApiClient {
+  headers: { [key: string]: string };
+  signal?: AbortSignal;
+
+  /**
+   * @param headers Headers sent with every request
+   * @param signal Cancels the pending and the following requests when aborted
+   */
+  constructor(headers: { [key: string]: string }, signal?: AbortSignal) {
+    this.headers = headers;
+    this.signal = signal;
+  }
+
+  get<T>(url: string, guard: Guard<T>): Promise<T> {
+    return this.request(url, { method: 'GET' }, guard);
+  }
+
+  post<T>(url: string, body: unknown, guard: Guard<T>): Promise<T> {
+    return this.request(
+      url,
+      { method: 'POST', body: JSON.stringify(body) },
+      guard,
+    );
+  }
+
+  async request<T>(
+    url: string,
+    init: RequestInit,
+    guard: Guard<T>,
+    attempt = 0,
+  ): Promise<T> {
+    if (this.signal?.aborted) {
+      throw new ApiError('aborted');
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        ...init,
+        headers: this.headers,
+        signal: this.signal,
+      });
+    } catch (error) {
+      if (this.signal?.aborted) {
+        throw new ApiError('aborted');
+      }
+      if (attempt < MAX_RETRIES) {
+        await this._wait(this._getBackoff(attempt));
+        return this.request(url, init, guard, attempt + 1);
+      }
+      throw new ApiError('network');
+    }
+
+    if (!response.ok) {
+      const type = this._classify(response.status);
+      if (
+        (type === 'rate-limit' || type === 'server') &&
+        attempt < MAX_RETRIES
+      ) {
+        await this._wait(
+          Math.max(
+            this._getRetryAfter(response) ?? 0,
+            this._getBackoff(attempt),
+          ),
+        );
+        return this.request(url, init, guard, attempt + 1);
+      }
+      throw new ApiError(type, response.status);
+    }
+
+    let body: unknown;
+    try {
+      body = await response.json();
+    } catch (error) {
+      if (this.signal?.aborted) {
+        throw new ApiError('aborted');
+      }
+      throw new ApiError('invalid-response', response.status);
+    }
+    if (!guard(body)) {
+      throw new ApiError('invalid-response', response.status);
+    }
+    return body;
+  }
+
+  _classify(status: number): ApiErrorType {
+    if (status === 401 || status === 403) {
+      return 'auth';
+    }
+    if (status === 404) {
+      return 'not-found';
+    }
+    if (status === 429) {
+      return 'rate-limit';
+    }
+    return status >= 500 ? 'server' : 'invalid-response';
+  }
+
+  // Exponential backoff where the second half of the delay is random, so parallel
+  // requests that failed together do not retry together
+  _getBackoff(attempt: number) {
+    const delay = Math.min(MAX_DELAY_MS, BASE_DELAY_MS * Math.pow(2, attempt));
+    return delay / 2 + (Math.random() * delay) / 2;
+  }
+
+  // Retry-After holds either a number of seconds or an HTTP date
+  _getRetryAfter(response: Response): number | null {
+    const header = response.headers.get('Retry-After');
+    if (!header) {
+      return null;
+    }
+    const seconds = Number(header);
+    const delay = isNaN(seconds)
+      ? Date.parse(header) - Date.now()
+      : seconds * 1000;
+    return isNaN(delay) ? null : Math.min(MAX_DELAY_MS, Math.max(0, delay));
+  }
+
+  _wait(milliseconds: number) {
+    return new Promise<void>((resolve, reject) => {
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(new ApiError('aborted'));
+      };
+      const timer = setTimeout(() => {
+        this.signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, milliseconds);
+      this.signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+}
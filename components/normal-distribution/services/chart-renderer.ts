@@ -0,0 +1,963 @@
+import { NELSON_RULES, type ControlChart } from '../utils/control-chart';
+import { formatValue } from '../utils/format';
+import {
+  empiricalCdf,
+  normalCdfCurve,
+  type QuantilePlot,
+} from '../utils/probability-plot';
+import type { SpecificationLimits } from '../utils/statistics';
+import type { DurationUnit } from '../utils/time-weighting';
+import type {
+  AnalysisBin,
+  DistributionAnalysis,
+  Quartiles,
+  Sample,
+} from '../utils/analysis';
+
+// Series colors in comparison mode, skipping the red and green used by the specification limits
+export const COMPARISON_COLORS = [
+  '#5470C6',
+  '#FAC858',
+  '#9A60B4',
+  '#73C0DE',
+  '#FC8452',
+  '#91CC75',
+];
+
+// Selects a range of values by dragging over the histogram, once the chart service takes the
+// brush cursor
+const RANGE_BRUSH = {
+  xAxisIndex: 0,
+  brushType: 'lineX',
+  brushMode: 'single',
+  outOfBrush: { colorAlpha: 0.3 },
+  brushStyle: {
+    color: 'rgba(84, 112, 198, 0.15)',
+    borderColor: 'rgba(84, 112, 198, 0.6)',
+    borderWidth: 1,
+  },
+};
+
+export type HistogramPoint = {
+  // Center of the bin and its count
+  value: number[];
+  range: number[];
+  share: number;
+};
+
+// A histogram and fitted curve drawn over the same bins as the primary distribution
+export type OverlaySeries = {
+  label: string;
+  color: string;
+  histogramData: HistogramPoint[];
+  fitData: number[][];
+};
+
+export type HistogramRenderOptions = {
+  decimals: number;
+  unit?: string;
+  // Smallest step between values, the bins are offset by half of it
+  resolution: number;
+  // Unit of the counts in time-weighted mode
+  durationUnit: DurationUnit | null;
+  specificationLimits: SpecificationLimits;
+  showQuartiles: boolean;
+  // Legend entry of the primary metric when it is compared with other metrics
+  primaryLabel: string;
+  comparisonSeries: OverlaySeries[];
+  // Statistics shown in the legend of every compared metric, null without comparison
+  comparison:
+    { label: string; mean: number; standardDeviation: number }[] | null;
+  baselineSeries: {
+    histogramData: HistogramPoint[];
+    fitData: number[][];
+  } | null;
+  groupSeries: OverlaySeries[];
+};
+
+/**
+ * Converts counts per bin to bar data, with the range of every bin for the tooltip.
+ */
+export function toHistogramData(
+  bins: { start: number; end: number }[],
+  counts: number[],
+  total: number,
+): HistogramPoint[] {
+  return bins.map((bin, i) => ({
+    value: [(bin.start + bin.end) / 2, counts[i]],
+    range: [bin.start, bin.end],
+    share: total > 0 ? counts[i] / total : 0,
+  }));
+}
+
+export function getFrequencyLabel(durationUnit: DurationUnit | null) {
+  return durationUnit ? `Duration (${durationUnit.label})` : 'Frequency';
+}
+
+/**
+ * Draws the histogram of the analysis with its fitted curve and bounds, and the series it is
+ * compared with.
+ */
+export function createHistogramOption(
+  analysis: DistributionAnalysis,
+  {
+    decimals,
+    unit,
+    resolution,
+    durationUnit,
+    specificationLimits,
+    showQuartiles,
+    primaryLabel,
+    comparisonSeries,
+    comparison,
+    baselineSeries,
+    groupSeries,
+  }: HistogramRenderOptions,
+) {
+  const { mean, bounds, quartiles, fitName } = analysis;
+  const fitData = analysis.curve;
+  const normalData = analysis.normalCurve;
+  const isNormalFit = analysis.fit.model === 'normal';
+  const isComparison = comparisonSeries.length > 0;
+  const histogramData = toHistogramData(
+    analysis.bins,
+    analysis.bins.map((bin) => bin.count),
+    analysis.total,
+  );
+  const excludedHistogramData = analysis.excludedBins
+    ? toHistogramData(analysis.bins, analysis.excludedBins, analysis.total)
+    : null;
+  const specificationMarkLines = getSpecificationMarkLines(
+    specificationLimits,
+    decimals,
+  );
+  const frequencyLabel = getFrequencyLabel(durationUnit);
+
+  // Metrics that could not be fitted have no curve to fit the axis to
+  const fitCurves = [
+    fitData,
+    ...comparisonSeries.map((series) => series.fitData),
+    ...(baselineSeries ? [baselineSeries.fitData] : []),
+    ...groupSeries.map((series) => series.fitData),
+  ].filter((curve) => curve.length > 0);
+  const showNormalReference = !isNormalFit && !isComparison;
+  const maxY = Math.max(
+    ...[
+      histogramData,
+      ...comparisonSeries.map((s) => s.histogramData),
+      ...(baselineSeries ? [baselineSeries.histogramData] : []),
+      ...(excludedHistogramData ? [excludedHistogramData] : []),
+    ].map((seriesData) =>
+      seriesData.reduce((max, point) => Math.max(max, point.value[1]), 0),
+    ),
+    ...[...fitCurves, showNormalReference ? normalData : []].map((curve) =>
+      curve.reduce((max, point) => Math.max(max, point[1]), 0),
+    ),
+  );
+
+  // Make sure the specification limits are visible even when they lie outside the curve
+  const xMin = Math.min(
+    ...fitCurves.map((curve) => curve[0][0]),
+    ...specificationMarkLines.map((line) => line.xAxis),
+  );
+  const xMax = Math.max(
+    ...fitCurves.map((curve) => curve[curve.length - 1][0]),
+    ...specificationMarkLines.map((line) => line.xAxis),
+  );
+
+  // In comparison mode each metric gets a single legend entry for both its histogram and curve
+  const histogramName = isComparison ? primaryLabel : 'Histogram';
+  const curveName = isComparison ? primaryLabel : fitName;
+  const curveColor = isComparison
+    ? COMPARISON_COLORS[0]
+    : 'rgba(255, 0, 0, 0.5)';
+
+  // Round xMin and xMax to the specified number of decimals
+  const multiplier = Math.pow(10, decimals);
+  const xMinRounded = Math.round(xMin * multiplier) / multiplier;
+  const xMaxRounded = Math.round(xMax * multiplier) / multiplier;
+
+  const frequencyText = (frequency: number, share: number) =>
+    durationUnit
+      ? `Duration: ${frequency.toFixed(2)} ${durationUnit.label} (${(
+          share * 100
+        ).toFixed(1)}%)`
+      : `Frequency: ${frequency}`;
+
+  const option = {
+    // Disable animations for instant rendering (critical for PDF snapshots)
+    animation: false,
+    // title: {
+    //   text: "Normal Distribution and Actual Data",
+    // },
+    tooltip: {
+      trigger: 'item',
+      axisPointer: {
+        type: 'cross',
+      },
+      formatter: (params: any) => {
+        const unitText = unit ? ` ${unit}` : '';
+        const seriesText =
+          isComparison ||
+          groupSeries.length > 0 ||
+          params.seriesName === 'Baseline' ||
+          params.seriesName === 'Excluded'
+            ? `${params.seriesName}<br>`
+            : '';
+        if (params.data?.range) {
+          // Bins are offset by half the resolution, show the rounded values they contain
+          const first = params.data.range[0] + resolution / 2;
+          const last = params.data.range[1] - resolution / 2;
+          const value =
+            last - first < resolution / 2
+              ? formatValue(first, decimals)
+              : `${formatValue(first, decimals)} – ${formatValue(last, decimals)}`;
+          return `${seriesText}Value: ${value}${unitText}<br>${frequencyText(
+            params.value[1],
+            params.data.share,
+          )}`;
+        }
+        let value: string;
+        if (typeof params.value[0] === 'number') {
+          if (decimals === 0) {
+            value = Math.round(params.value[0]).toString();
+          } else {
+            value = Number(params.value[0]).toFixed(decimals);
+          }
+        } else {
+          value = params.value[0];
+        }
+        return `Value: ${value}${unitText}<br>Frequency: ${params.value[1]}`;
+      },
+    },
+    legend: {
+      data: [
+        ...(comparison
+          ? comparison.map((row) => row.label)
+          : ['Histogram', fitName]),
+        ...(showNormalReference ? ['Normal distribution'] : []),
+        ...(baselineSeries ? ['Baseline'] : []),
+        ...(excludedHistogramData ? ['Excluded'] : []),
+      ],
+      formatter: (name: string) => {
+        const row = comparison?.find((row) => row.label === name);
+        return row
+          ? `${name} (μ ${formatValue(row.mean, decimals)}, σ ${formatValue(row.standardDeviation, decimals)})`
+          : name;
+      },
+    },
+    xAxis: {
+      type: 'value',
+      name: 'Value',
+      axisLine: {
+        onZero: false,
+      },
+      min: xMinRounded,
+      max: xMaxRounded,
+      splitLine: {
+        show: false,
+      },
+    },
+    yAxis: {
+      type: 'value',
+      name: frequencyLabel,
+      min: 0,
+      max: maxY,
+      axisLine: {
+        onZero: false,
+      },
+    },
+    brush: RANGE_BRUSH,
+    series: [
+      ...(excludedHistogramData
+        ? [
+            {
+              name: 'Excluded',
+              type: 'bar',
+              data: excludedHistogramData,
+              barWidth: '99%',
+              barGap: '-100%',
+              itemStyle: {
+                color: '#BBBBBB',
+                opacity: 0.5,
+              },
+            },
+          ]
+        : []),
+      // Draw the baseline first so it stays behind the current distribution
+      ...(baselineSeries
+        ? [
+            {
+              name: 'Baseline',
+              type: 'bar',
+              data: baselineSeries.histogramData,
+              barWidth: '99%',
+              barGap: '-100%',
+              itemStyle: {
+                color: '#999999',
+                opacity: 0.3,
+              },
+            },
+            {
+              name: 'Baseline',
+              type: 'line',
+              data: baselineSeries.fitData,
+              showSymbol: false,
+              smooth: true,
+              itemStyle: {
+                color: '#999999',
+              },
+              lineStyle: {
+                width: 2,
+                type: 'dashed',
+                color: '#999999',
+              },
+              tooltip: {
+                show: false,
+              },
+            },
+          ]
+        : []),
+      {
+        name: histogramName,
+        type: 'bar',
+        data: histogramData,
+        barWidth: '99%',
+        // Overlap the bars of compared metrics instead of placing them side by side
+        barGap: '-100%',
+        itemStyle: {
+          color: '#5470C6',
+          opacity: isComparison ? 0.5 : 0.7,
+        },
+        markLine: {
+          symbol: ['none', 'none'],
+          label: {
+            show: true,
+            position: 'insideEndTop',
+            formatter: '{b}',
+          },
+          tooltip: {
+            show: false,
+          },
+          data: specificationMarkLines,
+        },
+      },
+      {
+        name: curveName,
+        type: 'line',
+        data: fitData,
+        showSymbol: false,
+        smooth: true,
+        itemStyle: {
+          color: curveColor,
+        },
+        lineStyle: {
+          width: 2,
+          color: curveColor,
+        },
+        tooltip: {
+          show: false,
+        },
+        markLine: {
+          symbol: ['none', 'none', 'none'],
+          label: {
+            normal: {
+              show: true,
+            },
+          },
+          itemStyle: {
+            color: curveColor,
+          },
+          tooltip: {
+            show: false,
+          },
+          data: [
+            {
+              name: `${bounds.lowerLabel}: ${formatValue(bounds.lower, decimals)}`,
+              xAxis: bounds.lower,
+            },
+            {
+              name: `Mean: ${formatValue(mean, decimals)}`,
+              xAxis: mean,
+            },
+            {
+              name: `${bounds.upperLabel}: ${formatValue(bounds.upper, decimals)}`,
+              xAxis: bounds.upper,
+            },
+            ...(showQuartiles ? getQuartileMarkLines(quartiles, decimals) : []),
+          ],
+        },
+      },
+      ...comparisonSeries.reduce<object[]>(
+        (all, series) =>
+          all.concat([
+            {
+              name: series.label,
+              type: 'bar',
+              data: series.histogramData,
+              barWidth: '99%',
+              barGap: '-100%',
+              itemStyle: {
+                color: series.color,
+                opacity: 0.5,
+              },
+            },
+            {
+              name: series.label,
+              type: 'line',
+              data: series.fitData,
+              showSymbol: false,
+              smooth: true,
+              itemStyle: {
+                color: series.color,
+              },
+              lineStyle: {
+                width: 2,
+                color: series.color,
+              },
+              tooltip: {
+                show: false,
+              },
+            },
+          ]),
+        [],
+      ),
+      // Keep the normal curve as a reference when another model is fitted
+      ...(showNormalReference
+        ? [
+            {
+              name: 'Normal distribution',
+              type: 'line',
+              data: normalData,
+              showSymbol: false,
+              smooth: true,
+              lineStyle: {
+                width: 1,
+                type: 'dashed',
+                color: 'rgba(128, 128, 128, 0.6)',
+              },
+              tooltip: {
+                show: false,
+              },
+            },
+          ]
+        : []),
+    ],
+  };
+  return option;
+}
+
+/**
+ * A quick histogram with the normal curve, drawn while the pages are still loading.
+ */
+export function createPreviewOption(
+  bins: Pick<AnalysisBin, 'start' | 'end' | 'count'>[],
+  normalData: number[][],
+  durationUnit: DurationUnit | null,
+) {
+  return {
+    animation: false,
+    xAxis: {
+      type: 'value',
+      name: 'Value',
+      scale: true,
+      splitLine: {
+        show: false,
+      },
+    },
+    yAxis: {
+      type: 'value',
+      name: getFrequencyLabel(durationUnit),
+      min: 0,
+    },
+    series: [
+      {
+        name: 'Histogram',
+        type: 'bar',
+        data: bins.map((bin) => [(bin.start + bin.end) / 2, bin.count]),
+        barWidth: '99%',
+        itemStyle: {
+          color: '#5470C6',
+          opacity: 0.7,
+        },
+      },
+      {
+        name: 'Normal distribution',
+        type: 'line',
+        data: normalData,
+        showSymbol: false,
+        smooth: true,
+        lineStyle: {
+          width: 2,
+          color: 'rgba(255, 0, 0, 0.5)',
+        },
+      },
+    ],
+  };
+}
+
+/**
+ * Draws every group with its histogram and curve, on top of each other or as a grid of
+ * small charts that share the x-axis range.
+ */
+export function createGroupedOption(
+  groups: OverlaySeries[],
+  display: 'overlay' | 'small-multiples',
+  {
+    tooltip,
+    xAxis,
+    frequencyLabel,
+    specificationMarkLines,
+  }: {
+    tooltip: object;
+    xAxis: { min: number; max: number };
+    frequencyLabel: string;
+    specificationMarkLines: object[];
+  },
+) {
+  const toSeries = (
+    group: (typeof groups)[number],
+    axisIndex: number,
+    showLimits: boolean,
+  ) => [
+    {
+      name: group.label,
+      type: 'bar',
+      data: group.histogramData,
+      barWidth: '99%',
+      barGap: '-100%',
+      xAxisIndex: axisIndex,
+      yAxisIndex: axisIndex,
+      itemStyle: {
+        color: group.color,
+        opacity: display === 'overlay' ? 0.5 : 0.7,
+      },
+      markLine: showLimits
+        ? {
+            symbol: ['none', 'none'],
+            label: { show: true, position: 'insideEndTop', formatter: '{b}' },
+            tooltip: { show: false },
+            data: specificationMarkLines,
+          }
+        : undefined,
+    },
+    {
+      name: group.label,
+      type: 'line',
+      data: group.fitData,
+      showSymbol: false,
+      smooth: true,
+      xAxisIndex: axisIndex,
+      yAxisIndex: axisIndex,
+      itemStyle: { color: group.color },
+      lineStyle: { width: 2, color: group.color },
+      tooltip: { show: false },
+    },
+  ];
+
+  if (display === 'overlay') {
+    return {
+      animation: false,
+      tooltip,
+      // Clicking a legend entry shows or hides the group
+      legend: { data: groups.map((group) => group.label) },
+      xAxis: { ...xAxis, type: 'value', name: 'Value' },
+      yAxis: { type: 'value', name: frequencyLabel, min: 0 },
+      brush: RANGE_BRUSH,
+      series: groups.reduce<object[]>(
+        (all, group, i) => all.concat(toSeries(group, 0, i === 0)),
+        [],
+      ),
+    };
+  }
+
+  // Lay the groups out in a grid that is about as wide as it is high
+  const columns = Math.ceil(Math.sqrt(groups.length));
+  const rows = Math.ceil(groups.length / columns);
+  const cellWidth = 100 / columns;
+  const cellHeight = 100 / rows;
+  const cells = groups.map((_, i) => ({
+    left: (i % columns) * cellWidth,
+    top: Math.floor(i / columns) * cellHeight,
+  }));
+  return {
+    animation: false,
+    tooltip,
+    title: groups.map((group, i) => ({
+      text: group.label,
+      left: `${cells[i].left + cellWidth / 2}%`,
+      top: `${cells[i].top}%`,
+      textAlign: 'center',
+      textStyle: { fontSize: 12, fontWeight: 500, color: group.color },
+    })),
+    grid: cells.map((cell) => ({
+      left: `${cell.left + 6}%`,
+      width: `${cellWidth - 9}%`,
+      top: `${cell.top + 8}%`,
+      height: `${cellHeight - 16}%`,
+    })),
+    xAxis: groups.map((_, i) => ({
+      ...xAxis,
+      type: 'value',
+      gridIndex: i,
+    })),
+    yAxis: groups.map((_, i) => ({
+      type: 'value',
+      gridIndex: i,
+      min: 0,
+      name: i % columns === 0 ? frequencyLabel : undefined,
+    })),
+    series: groups.reduce<object[]>(
+      (all, group, i) => all.concat(toSeries(group, i, true)),
+      [],
+    ),
+  };
+}
+
+export function createEcdfOption(
+  curves: { label: string; color: string; sample: Sample }[],
+  // The normal distribution to overlay, only drawn for a single curve
+  normal: { mean: number; standardDeviation: number } | null,
+  specificationMarkLines: { xAxis: number }[],
+  decimals: number,
+  unit?: string,
+) {
+  const unitText = unit ? ` ${unit}` : '';
+  const steps = curves.map((curve) =>
+    empiricalCdf(curve.sample.values, curve.sample.weights),
+  );
+  const limits = specificationMarkLines.map((line) => line.xAxis);
+  const xMin = Math.min(
+    ...steps.filter((step) => step.length).map((step) => step[0][0]),
+    ...limits,
+  );
+  const xMax = Math.max(
+    ...steps
+      .filter((step) => step.length)
+      .map((step) => step[step.length - 1][0]),
+    ...limits,
+  );
+  const normalData = normal
+    ? normalCdfCurve(normal.mean, normal.standardDeviation, xMin, xMax)
+    : [];
+
+  return {
+    animation: false,
+    tooltip: {
+      trigger: 'item',
+      formatter: (params: any) =>
+        `${params.seriesName}<br>Value ≤ ${formatValue(
+          params.value[0],
+          decimals,
+        )}${unitText}: ${(params.value[1] * 100).toFixed(1)}%`,
+    },
+    legend: {
+      data: [
+        ...curves.map((curve) => curve.label),
+        ...(normalData.length ? ['Normal CDF'] : []),
+      ],
+    },
+    xAxis: {
+      type: 'value',
+      name: 'Value',
+      min: xMin,
+      max: xMax,
+      axisLine: { onZero: false },
+      axisLabel: {
+        formatter: (value: number) => formatValue(value, decimals),
+      },
+      splitLine: { show: false },
+    },
+    yAxis: {
+      type: 'value',
+      name: 'Cumulative share',
+      min: 0,
+      max: 1,
+      axisLabel: {
+        formatter: (value: number) => `${Math.round(value * 100)}%`,
+      },
+    },
+    series: [
+      ...curves.map((curve, i) => ({
+        name: curve.label,
+        type: 'line',
+        step: 'end',
+        data: steps[i],
+        showSymbol: false,
+        itemStyle: { color: curve.color },
+        lineStyle: { width: 2, color: curve.color },
+        markLine:
+          i === 0
+            ? {
+                symbol: ['none', 'none'],
+                silent: true,
+                label: { formatter: '{b}', position: 'insideEndTop' },
+                data: specificationMarkLines,
+              }
+            : undefined,
+      })),
+      ...(normalData.length
+        ? [
+            {
+              name: 'Normal CDF',
+              type: 'line',
+              data: normalData,
+              showSymbol: false,
+              smooth: true,
+              lineStyle: {
+                width: 2,
+                type: 'dashed',
+                color: 'rgba(255, 0, 0, 0.5)',
+              },
+              itemStyle: { color: 'rgba(255, 0, 0, 0.5)' },
+              tooltip: { show: false },
+            },
+          ]
+        : []),
+    ],
+  };
+}
+
+export function createQuantilePlotOption(
+  plot: QuantilePlot,
+  confidenceLevelPercentage: number,
+  specificationMarkLines: {
+    name: string;
+    xAxis: number;
+    lineStyle: object;
+  }[],
+  decimals: number,
+  unit?: string,
+) {
+  const unitText = unit ? ` ${unit}` : '';
+  const bandName = `${confidenceLevelPercentage}% confidence band`;
+  const bandStyle = {
+    width: 1,
+    type: 'dashed',
+    color: 'rgba(255, 0, 0, 0.4)',
+  };
+  // The values are on the y-axis, so the specification limits become horizontal lines
+  const limitLines = specificationMarkLines.map(
+    ({ name, xAxis, lineStyle }) => ({ name, yAxis: xAxis, lineStyle }),
+  );
+
+  return {
+    animation: false,
+    tooltip: {
+      trigger: 'item',
+      formatter: (params: any) =>
+        `Theoretical quantile: ${params.value[0].toFixed(2)}<br>Value: ${formatValue(
+          params.value[1],
+          decimals,
+        )}${unitText}`,
+    },
+    legend: {
+      data: ['Values', 'Normal distribution', bandName],
+    },
+    xAxis: {
+      type: 'value',
+      name: 'Theoretical quantile (z)',
+      nameLocation: 'middle',
+      nameGap: 28,
+      axisLine: { onZero: false },
+      splitLine: { show: false },
+    },
+    yAxis: {
+      type: 'value',
+      name: 'Value',
+      scale: true,
+      axisLabel: {
+        formatter: (value: number) => formatValue(value, decimals),
+      },
+    },
+    series: [
+      {
+        name: 'Values',
+        type: 'scatter',
+        data: plot.points,
+        symbolSize: 4,
+        itemStyle: { color: '#5470C6', opacity: 0.7 },
+        markLine: {
+          symbol: ['none', 'none'],
+          silent: true,
+          label: { formatter: '{b}', position: 'insideEndTop' },
+          data: limitLines,
+        },
+      },
+      {
+        name: 'Normal distribution',
+        type: 'line',
+        data: plot.line,
+        showSymbol: false,
+        itemStyle: { color: 'rgba(255, 0, 0, 0.5)' },
+        lineStyle: { width: 2, color: 'rgba(255, 0, 0, 0.5)' },
+        tooltip: { show: false },
+      },
+      ...[plot.lower, plot.upper].map((band) => ({
+        name: bandName,
+        type: 'line',
+        data: band,
+        showSymbol: false,
+        smooth: true,
+        itemStyle: { color: bandStyle.color },
+        lineStyle: bandStyle,
+        tooltip: { show: false },
+      })),
+    ],
+  };
+}
+
+export function createControlChartOption(
+  controlChart: ControlChart,
+  decimals: number,
+  unit?: string,
+) {
+  const unitText = unit ? ` ${unit}` : '';
+  const charts = [controlChart.location, controlChart.dispersion];
+  // Symbols on every point make long individuals charts slow and unreadable
+  const showSymbol = controlChart.location.points.length <= 500;
+
+  return {
+    animation: false,
+    tooltip: {
+      trigger: 'item',
+      formatter: (params: any) => {
+        const rules = (params.data?.violations ?? [])
+          .map((rule: number) => `<br>Rule ${rule}: ${NELSON_RULES[rule]}`)
+          .join('');
+        return `${new Date(params.value[0]).toLocaleString()}<br>${
+          params.seriesName
+        }: ${formatValue(params.value[1], decimals)}${unitText}${rules}`;
+      },
+    },
+    grid: [
+      { top: 32, bottom: '45%', left: 56, right: 48 },
+      { top: '62%', bottom: 32, left: 56, right: 48 },
+    ],
+    xAxis: charts.map((_, index) => ({
+      type: 'time',
+      gridIndex: index,
+      axisLabel: { show: index === 1 },
+      splitLine: { show: false },
+    })),
+    yAxis: charts.map((chart, index) => ({
+      type: 'value',
+      gridIndex: index,
+      name: chart.name,
+      scale: true,
+      // Keep the control limits inside the plotted area
+      min: (extent: { min: number }) => Math.min(extent.min, chart.lower),
+      max: (extent: { max: number }) => Math.max(extent.max, chart.upper),
+    })),
+    series: charts.reduce<object[]>(
+      (all, chart, index) =>
+        all.concat([
+          {
+            name: chart.name,
+            type: 'line',
+            xAxisIndex: index,
+            yAxisIndex: index,
+            data: chart.points.map((point) => [point.time, point.value]),
+            showSymbol,
+            symbolSize: 4,
+            itemStyle: { color: '#5470C6' },
+            lineStyle: { width: 1, color: '#5470C6' },
+            markLine: {
+              symbol: ['none', 'none'],
+              silent: true,
+              label: { formatter: '{b}', position: 'insideEndTop' },
+              data: [
+                {
+                  name: `UCL: ${formatValue(chart.upper, decimals)}`,
+                  yAxis: chart.upper,
+                  lineStyle: { color: '#EE6666', type: 'dashed' },
+                },
+                {
+                  name: `CL: ${formatValue(chart.center, decimals)}`,
+                  yAxis: chart.center,
+                  lineStyle: { color: '#3BA272', type: 'solid' },
+                },
+                {
+                  name: `LCL: ${formatValue(chart.lower, decimals)}`,
+                  yAxis: chart.lower,
+                  lineStyle: { color: '#EE6666', type: 'dashed' },
+                },
+              ],
+            },
+          },
+          {
+            name: chart.name,
+            type: 'scatter',
+            xAxisIndex: index,
+            yAxisIndex: index,
+            data: chart.points
+              .filter((point) => point.violations.length > 0)
+              .map((point) => ({
+                value: [point.time, point.value],
+                violations: point.violations,
+              })),
+            symbolSize: 8,
+            itemStyle: { color: '#EE6666' },
+            z: 3,
+          },
+        ]),
+      [],
+    ),
+  };
+}
+
+export function getSpecificationMarkLines(
+  limits: SpecificationLimits,
+  decimals: number,
+) {
+  const lines: {
+    name: string;
+    xAxis: number;
+    lineStyle: { color: string; type: string; width: number };
+  }[] = [];
+  const specificationLineStyle = {
+    color: '#EE6666',
+    type: 'dashed',
+    width: 2,
+  };
+
+  if (typeof limits.lsl === 'number') {
+    lines.push({
+      name: `LSL: ${formatValue(limits.lsl, decimals)}`,
+      xAxis: limits.lsl,
+      lineStyle: specificationLineStyle,
+    });
+  }
+  if (typeof limits.target === 'number') {
+    lines.push({
+      name: `Target: ${formatValue(limits.target, decimals)}`,
+      xAxis: limits.target,
+      lineStyle: { color: '#3BA272', type: 'dashed', width: 2 },
+    });
+  }
+  if (typeof limits.usl === 'number') {
+    lines.push({
+      name: `USL: ${formatValue(limits.usl, decimals)}`,
+      xAxis: limits.usl,
+      lineStyle: specificationLineStyle,
+    });
+  }
+
+  return lines;
+}
+
+export function getQuartileMarkLines(
+  { q1, median, q3 }: Quartiles,
+  decimals: number,
+) {
+  const lineStyle = { color: '#73C0DE', type: 'dotted', width: 2 };
+  return [
+    { name: `Q1: ${formatValue(q1, decimals)}`, xAxis: q1, lineStyle },
+    {
+      name: `Median: ${formatValue(median, decimals)}`,
+      xAxis: median,
+      lineStyle: { ...lineStyle, type: 'solid' },
+    },
+    { name: `Q3: ${formatValue(q3, decimals)}`, xAxis: q3, lineStyle },
+  ];
+}
@@ -1,254 +1,1231 @@
 import * as echarts from 'echarts/core';
-import { BarChart, LineChart } from 'echarts/charts';
+import { BarChart, LineChart, ScatterChart } from 'echarts/charts';
 import {
+  BrushComponent,
   TooltipComponent,
   LegendComponent,
   GridComponent,
   MarkLineComponent,
+  TitleComponent,
 } from 'echarts/components';
 import { SVGRenderer } from 'echarts/renderers';
 import {
   calculateStatistics,
-  generateNormalDistributionData,
-  getZScoreForConfidence,
-  getConfidenceInterval,
+  calculateWeightedStatistics,
+  summarizeSample,
+  welchTTest,
+  fTestEqualVariances,
+  type CapabilityIndices,
+  type NormalityAssessment,
+  type SpecificationLimits,
+  type HypothesisTestResult,
 } from '../utils/statistics';
-import { DataService, type ProgressCallback } from './data.service';
-import type { ComponentContext } from '@ixon-cdk/types';
+import type { BinningOptions } from '../utils/binning';
+import type {
+  FitSummary,
+  ModelSelection,
+  SelectionCriterion,
+} from '../utils/distributions';
+import {
+  buildControlChart,
+  type ControlChart,
+  type ControlChartType,
+} from '../utils/control-chart';
+import { formatValue } from '../utils/format';
+import {
+  calculateTimeWeights,
+  getDurationUnit,
+  type DurationUnit,
+} from '../utils/time-weighting';
+import type { ExportData } from '../utils/export';
+import {
+  filterOutliers,
+  type ExclusionCounts,
+  type OutlierFilterOptions,
+} from '../utils/outliers';
+import type { Gate, GateCondition } from '../utils/gate';
+import {
+  StepSeries,
+  getShift,
+  groupPoints,
+  type GroupKey,
+} from '../utils/grouping';
+import type { SampledPoint } from '../utils/streaming';
+import {
+  Resampler,
+  isResampling,
+  type ResamplingOptions,
+} from '../utils/resampling';
+import { normalQuantilePlot } from '../utils/probability-plot';
+import type {
+  AnalysisOptions,
+  BoundMode,
+  Bounds,
+  DistributionAnalysis,
+  Quartiles,
+  Sample,
+  StatisticalIntervals,
+} from '../utils/analysis';
+import {
+  COMPARISON_COLORS,
+  createControlChartOption,
+  createEcdfOption,
+  createGroupedOption,
+  createHistogramOption,
+  createPreviewOption,
+  createQuantilePlotOption,
+  getFrequencyLabel,
+  getSpecificationMarkLines,
+  toHistogramData,
+  type HistogramPoint,
+} from './chart-renderer';
+import { throwIfAborted } from './api-client';
+import {
+  computeService,
+  restartOnWorkerStop,
+  type RemoteAccumulator,
+} from './compute.service';
+import {
+  DataService,
+  type LoadingOptions,
+  type ProgressCallback,
+} from './data.service';
+import type { ComponentContext, LoggingDataTimeRange } from '@ixon-cdk/types';
 
 // Register only the components we need for tree-shaking
 echarts.use([
   BarChart,
   LineChart,
+  ScatterChart,
+  BrushComponent,
   TooltipComponent,
   LegendComponent,
   GridComponent,
   MarkLineComponent,
+  TitleComponent,
   SVGRenderer,
 ]);
 
+// Points kept for the normality tests, fit and control chart; larger ranges are sampled
+const MAX_SAMPLE_SIZE = 100000;
+
+// Minimum time between two redraws of the histogram while the pages are loading
+const PREVIEW_INTERVAL_MS = 500;
+
+// Groups beyond this number are merged into one
+const MAX_GROUPS = 8;
+
+// Resampling intervals that divide the time range into more steps are refused
+const MAX_RESAMPLED_STEPS = 2000000;
+
+export type ComparisonMetric = {
+  label?: string;
+  metric: {
+    selector: string;
+    factor?: number | null;
+    decimals?: number | null;
+  };
+};
+
+export type ComparisonRow = {
+  label: string;
+  color: string;
+  n: number;
+  mean: number;
+  standardDeviation: number;
+  // Tests against the primary metric, null for the primary metric itself
+  tTest: HypothesisTestResult | null;
+  fTest: HypothesisTestResult | null;
+};
+
+// Only the samples taken while the condition on the gate metric held are analysed
+export type GateOptions = {
+  metric: ComparisonMetric['metric'];
+  condition: GateCondition;
+};
+
+export type GroupByOptions = {
+  mode?: 'none' | 'metric' | 'shift';
+  // Categorical metric whose value at the time of a sample is its group, like a recipe number
+  metric?: ComparisonMetric['metric'] | null;
+  // Start times of the shifts in minutes of the day
+  shiftStarts?: number[];
+  display?: 'overlay' | 'small-multiples';
+};
+
+export type GroupRow = {
+  label: string;
+  color: string;
+  n: number;
+  mean: number;
+  standardDeviation: number;
+  // Null when no distribution could be fitted to the values of the group
+  lowerBound: number | null;
+  upperBound: number | null;
+};
+
+export type BaselineOptions = {
+  mode?: 'none' | 'previous-period' | 'previous-week' | 'fixed';
+  // Start and end of the 'fixed' baseline, as parsable date strings
+  from?: string | null;
+  to?: string | null;
+};
+
+export type BaselineResult = {
+  timeRange: LoggingDataTimeRange;
+  n: number;
+  mean: number;
+  standardDeviation: number;
+  meanDelta: number;
+  standardDeviationDelta: number;
+};
+
+// The ECDF and Q-Q views show the same sorted values as the histogram, which makes the tails
+// easier to judge
+export type ViewMode = 'histogram' | 'ecdf' | 'qq' | 'control-chart';
+
+export type ChartOptions = {
+  confidenceLevelPercentage?: number;
+  boundMode?: BoundMode;
+  // Share of the population a tolerance interval contains
+  coveragePercentage?: number;
+  // Marks the median and the quartiles in the histogram
+  showQuartiles?: boolean;
+  ignoreZero?: boolean;
+  outlierFilters?: OutlierFilterOptions;
+  // Shows the excluded values as a separate series in the histogram
+  showExcluded?: boolean;
+  gate?: GateOptions | null;
+  groupBy?: GroupByOptions;
+  timeWeighted?: boolean;
+  specificationLimits?: SpecificationLimits;
+  binning?: BinningOptions;
+  distribution?: ModelSelection;
+  selectionCriterion?: SelectionCriterion;
+  comparisonMetrics?: ComparisonMetric[];
+  baseline?: BaselineOptions;
+  viewMode?: ViewMode;
+  controlChartType?: ControlChartType;
+  subgroupSize?: number;
+  dataLoading?: LoadingOptions;
+  // Resamples every metric to fixed intervals before the statistics, instead of loading it as logged
+  resampling?: ResamplingOptions;
+  // Range to analyse instead of the range of the context, live mode moves it along with the clock
+  timeRange?: LoggingDataTimeRange;
+};
+
+export type ChartResult = {
+  // The analysis the chart was drawn from, the fields below are taken from it
+  analysis: DistributionAnalysis;
+  timeRange: LoggingDataTimeRange;
+  mean: number;
+  standardDeviation: number;
+  capability: CapabilityIndices | null;
+  normality: NormalityAssessment | null;
+  fit: FitSummary;
+  bounds: Bounds;
+  // Percentage of the values below the lower or above the upper bound
+  beyondBounds: number;
+  intervals: StatisticalIntervals;
+  quartiles: Quartiles;
+  comparison: ComparisonRow[] | null;
+  groups: GroupRow[] | null;
+  baseline: BaselineResult | null;
+  // Why the baseline is not compared although one was selected, null otherwise
+  baselineUnavailable: string | null;
+  controlChart: ControlChart | null;
+  // Set when the control chart only follows the most recent of more points
+  controlChartWindow: { size: number; count: number } | null;
+  // Set when the analyses that need the individual points used a random sample of them
+  sampled: { size: number; count: number } | null;
+  // Set when the distribution was built from server-side aggregated buckets
+  approximate: boolean;
+  // Number of samples each filter left out
+  excluded: ExclusionCounts;
+  export: ExportData;
+};
+
 export class ChartService {
   context: ComponentContext;
   myChart: echarts.ECharts;
   standardDeviation: number;
+  abortController: AbortController | null = null;
+  // Receives the range of values brushed in the histogram, or null when it is cleared
+  onRangeSelect: ((range: [number, number] | null) => void) | null = null;
 
   constructor(context: ComponentContext, chartEl: HTMLDivElement) {
     this.context = context;
     // Use SVGRenderer for better PDF export quality (vector-based, sharper)
     this.myChart = echarts.init(chartEl, null, { renderer: 'svg' });
     this.standardDeviation = 0;
+    this.myChart.on('brushEnd', (params: any) => {
+      const range = params.areas?.[0]?.coordRange;
+      this.onRangeSelect?.(range ? [range[0], range[1]] : null);
+    });
+    this.myChart.on('brush', (params: any) => {
+      if (!params.areas?.length) {
+        this.onRangeSelect?.(null);
+      }
+    });
   }
 
-  async getDataAndDraw(
-    confidenceLevelPercentage = 95,
-    ignoreZero = false,
-    onProgress?: ProgressCallback
-  ): Promise<number> {
+  getDataAndDraw(
+    options: ChartOptions,
+    onProgress?: ProgressCallback,
+    onPreview?: () => void
+  ): Promise<ChartResult> {
+    // A compute worker that stopped during the draw took the points folded in so far with it,
+    // so the draw starts over on the main thread
+    return restartOnWorkerStop(() =>
+      this._getDataAndDraw(options, onProgress, onPreview)
+    );
+  }
+
+  async _getDataAndDraw(
+    {
+      confidenceLevelPercentage = 95,
+      boundMode = 'parametric',
+      coveragePercentage = 95,
+      showQuartiles = false,
+      ignoreZero = false,
+      outlierFilters = {},
+      showExcluded = false,
+      gate: gateOptions = null,
+      groupBy = {},
+      timeWeighted = false,
+      specificationLimits = {},
+      binning = {},
+      distribution = 'normal',
+      selectionCriterion = 'aic',
+      comparisonMetrics = [],
+      baseline = {},
+      viewMode = 'histogram',
+      controlChartType = 'i-mr',
+      subgroupSize = 5,
+      dataLoading = {},
+      resampling = {},
+      timeRange = this.context.timeRange,
+    }: ChartOptions,
+    onProgress?: ProgressCallback,
+    onPreview?: () => void
+  ): Promise<ChartResult> {
     const unit = this.context.inputs.dataSource.metric.unit;
     const factor = this.context.inputs.dataSource.metric.factor || 1;
     const decimals = this.context.inputs.dataSource.metric.decimals ?? 2;
+    const resolution = Math.pow(10, -decimals);
 
-    let data = await new DataService(this.context).getAllRawMetrics(
-      factor,
-      decimals,
-      onProgress
-    );
+    // A new draw supersedes the previous one, so cancel the requests it still has in flight
+    this.abortController?.abort();
+    this.abortController = new AbortController();
+    const signal = this.abortController.signal;
 
-    if (!data) {
-      throw new Error('No data available');
+    // Durations are shown in a unit that suits the length of the time range
+    const durationUnit = timeWeighted
+      ? getDurationUnit(timeRange.to - timeRange.from)
+      : null;
+
+    const filterOptions: OutlierFilterOptions = {
+      ...outlierFilters,
+      ignoreZero,
+    };
+
+    const gate = gateOptions
+      ? await this._getGate(gateOptions, timeRange, signal, onProgress)
+      : null;
+    // A newer draw may have started during every wait, which must not draw or return this one
+    throwIfAborted(signal);
+
+    // Fold every page into the statistics as it arrives, so memory stays bounded for long ranges.
+    // Values are weighed before filtering, so a removed value does not extend the duration of the value before it
+    const analysisOptions: AnalysisOptions = {
+      resolution,
+      confidenceLevelPercentage,
+      boundMode,
+      coveragePercentage,
+      filters: filterOptions,
+      keepExcluded: showExcluded,
+      gate,
+      specificationLimits,
+      binning,
+      distribution,
+      selectionCriterion,
+      timeWeighting: durationUnit
+        ? { unit: durationUnit, end: timeRange.to }
+        : null,
+      sampleSize: MAX_SAMPLE_SIZE,
+      // Control charts follow consecutive points, which a random sample does not have
+      recentSize: viewMode === 'control-chart' ? MAX_SAMPLE_SIZE : undefined,
+    };
+    if (viewMode === 'control-chart' && dataLoading.mode === 'aggregated') {
+      throw new Error(
+        'Control charts need the raw samples, set data loading to automatic or raw'
+      );
+    }
+    const isResampled = isResampling(resampling);
+    if (isResampled) {
+      if (dataLoading.mode === 'aggregated') {
+        throw new Error(
+          'Resampling replaces server-side aggregated loading, set data loading to automatic or raw'
+        );
+      }
+      if (
+        (timeRange.to - timeRange.from) / ((resampling.interval ?? 0) * 1000) >
+        MAX_RESAMPLED_STEPS
+      ) {
+        throw new Error(
+          'The resampling interval is too short for this time range'
+        );
+      }
     }
+    const isGrouped = !!groupBy.mode && groupBy.mode !== 'none';
+    if (
+      isGrouped &&
+      comparisonMetrics.some((comparison) => comparison.metric?.selector)
+    ) {
+      throw new Error('Grouping cannot be combined with comparison metrics');
+    }
+
+    let lastPreview = Date.now();
+    const load = async (
+      accumulator: RemoteAccumulator,
+      onPreview?: () => void
+    ) => {
+      const onPoints = (points: { time: number; value: number }[]) => {
+        // Pages normalized in the compute worker can still arrive after a cancellation
+        if (signal.aborted) {
+          return;
+        }
+        accumulator.add(points);
+        // Only drawn when requested, a silent refresh keeps the previous chart until it is done
+        if (
+          onPreview &&
+          viewMode === 'histogram' &&
+          Date.now() - lastPreview >= PREVIEW_INTERVAL_MS
+        ) {
+          lastPreview = Date.now();
+          this._drawPreview(
+            accumulator,
+            { ...binning, resolution },
+            durationUnit,
+            signal
+          )
+            .then((drawn) => drawn && onPreview())
+            // A failed preview is left out, the draw itself reports the failure
+            .catch(() => {});
+        }
+      };
+      const dataService = new DataService(this.context, timeRange, signal);
+      if (isResampled) {
+        const count = await this._streamResampled(
+          dataService,
+          resampling,
+          onPoints,
+          factor,
+          decimals,
+          onProgress
+        );
+        return count === null ? null : { count, aggregated: false };
+      }
+      return dataService.streamMetrics(
+        onPoints,
+        (buckets, stepMilliseconds) =>
+          accumulator.addBuckets(buckets, stepMilliseconds),
+        // Control charts follow the individual samples, so they always use raw data
+        viewMode === 'control-chart' ? { mode: 'raw' } : dataLoading,
+        factor,
+        decimals,
+        onProgress
+      );
+    };
 
-    if (!data?.length) {
+    // The points are folded in and analysed in the compute worker
+    let accumulator = computeService.createAccumulator(
+      analysisOptions,
+      null,
+      signal
+    );
+    const loaded = await load(accumulator, onPreview);
+    throwIfAborted(signal);
+    await accumulator.finish();
+    throwIfAborted(signal);
+
+    if (!loaded?.count) {
       throw new Error('No data available');
     }
 
-    if (ignoreZero) {
-      data = data.filter((d) => d.value !== 0);
+    // The statistical methods need the distribution of the values first, so their outliers
+    // are left out in a second pass. That pass reads the points from the cache when they fit in it
+    const fences = await accumulator.getFences(filterOptions);
+    throwIfAborted(signal);
+    if (fences) {
+      accumulator.delete();
+      accumulator = computeService.createAccumulator(
+        analysisOptions,
+        fences,
+        signal
+      );
+      await load(accumulator);
+      throwIfAborted(signal);
+      await accumulator.finish();
+      throwIfAborted(signal);
     }
 
+    const groupTimeline =
+      isGrouped && groupBy.mode === 'metric' && groupBy.metric?.selector
+        ? await this._getGroupTimeline(
+            groupBy.metric,
+            timeRange,
+            signal,
+            onProgress
+          )
+        : null;
+    throwIfAborted(signal);
+
+    const comparisonSamples = await this._getComparisonSamples(
+      comparisonMetrics,
+      timeRange,
+      resampling,
+      filterOptions,
+      gate,
+      durationUnit,
+      signal,
+      onProgress
+    );
+    throwIfAborted(signal);
+    const isComparison = comparisonSamples.length > 0;
+
+    const baselineRange = this._getBaselineRange(baseline, timeRange);
+    const baselineSample: Sample = baselineRange
+      ? await this._getBaselineSample(
+          baselineRange,
+          factor,
+          decimals,
+          resampling,
+          filterOptions,
+          gateOptions,
+          durationUnit,
+          signal,
+          onProgress
+        )
+      : { values: [] };
+    throwIfAborted(signal);
+    const baselineValues = baselineSample.values;
+    const hasBaseline = baselineValues.length > 0;
+
     onProgress?.('Processing...', 0, 0);
 
-    const { mean, standardDeviation } = calculateStatistics(data);
+    // All compared metrics share the same bin edges so their bars line up on the x-axis
+    const analysis = await accumulator.analyze(
+      {
+        ...analysisOptions,
+        pooledValues: ([] as number[]).concat(
+          ...comparisonSamples.map((sample) => sample.values),
+          baselineValues
+        ),
+      },
+      fences
+    );
+    const primarySummary = await accumulator.getSampleSummary();
+    const recentPoints =
+      viewMode === 'control-chart' ? await accumulator.getRecentPoints() : [];
+    accumulator.delete();
+    throwIfAborted(signal);
+    const {
+      mean,
+      standardDeviation,
+      bins,
+      binWidth,
+      fit,
+      fitName,
+      bounds,
+      quartiles,
+      intervals,
+    } = analysis;
+    const { values, weights } = analysis.sample;
     this.standardDeviation = standardDeviation;
 
-    // Sort data by value to assist in histogram calculation (data is already rounded from data service)
-    data.sort((a, b) => a.value - b.value);
+    let controlChart: ControlChart | null = null;
+    if (viewMode === 'control-chart') {
+      controlChart = buildControlChart(
+        recentPoints,
+        controlChartType,
+        subgroupSize
+      );
+      if (!controlChart) {
+        throw new Error('Not enough data available for a control chart');
+      }
+    }
 
-    // Create histogram data by grouping values
-    const histogramData: { value: [number, number] }[] = [];
-    const valueCounts = new Map<number, number>();
+    // Groups are split from the points in memory, so for very large ranges they hold a sample
+    const getGroupKey = this._getGroupKeyFunction(groupBy, groupTimeline);
+    const groupedPoints = getGroupKey
+      ? groupPoints(analysis.points, getGroupKey, MAX_GROUPS)
+      : [];
 
-    // Count occurrences of each value
-    data.forEach((point) => {
-      const value = point.value;
-      valueCounts.set(value, (valueCounts.get(value) || 0) + 1);
-    });
+    // The points that stand in for aggregated buckets are not exported as data
+    const exportPoints = analysis.aggregated
+      ? []
+      : analysis.points.map(({ time, value }) => ({ time, value }));
 
-    // Convert to histogram format
-    valueCounts.forEach((count, value) => {
-      histogramData.push({
-        value: [value, count],
-      });
-    });
+    const specificationMarkLines = getSpecificationMarkLines(
+      specificationLimits,
+      decimals
+    );
+    const frequencyLabel = getFrequencyLabel(durationUnit);
 
-    // Sort histogram data by value
-    histogramData.sort((a, b) => a.value[0] - b.value[0]);
+    const primaryLabel = this._getMetricLabel(
+      this.context.inputs.dataSource.metric.selector
+    );
+    const comparisonSeries = await Promise.all(
+      comparisonSamples.map(async (sample, i) => {
+        // A metric with a single or only equal values is compared without a curve
+        const sampleFit = await computeService.fitSample(
+          sample,
+          analysisOptions,
+          binWidth
+        );
+        const summary = summarizeSample(sample.values);
+        const total = this._getSampleTotal(sample);
+        return {
+          label: sample.label,
+          color: COMPARISON_COLORS[(i + 1) % COMPARISON_COLORS.length],
+          histogramData: toHistogramData(
+            bins,
+            await computeService.countIntoBins(
+              sample.values,
+              bins,
+              sample.weights
+            ),
+            total
+          ),
+          fitData: sampleFit?.curve ?? [],
+          row: {
+            label: sample.label,
+            color: COMPARISON_COLORS[(i + 1) % COMPARISON_COLORS.length],
+            ...this._toRowStatistics(sample),
+            tTest: welchTTest(summary, primarySummary),
+            fTest: fTestEqualVariances(summary, primarySummary),
+          },
+        };
+      })
+    );
+    throwIfAborted(signal);
 
-    const binSize = standardDeviation / 2;
+    const groupSeries = await Promise.all(
+      groupedPoints.map(async (group, i) => {
+        const points = await computeService.sortPoints(group.points);
+        throwIfAborted(signal);
+        const groupValues = points.map((point) => point.value);
+        const groupWeights = weights
+          ? points.map((point) => point.weight ?? 1)
+          : undefined;
+        const statistics = groupWeights
+          ? calculateWeightedStatistics(groupValues, groupWeights)
+          : calculateStatistics(points);
+        const total = this._getSampleTotal({
+          values: groupValues,
+          weights: groupWeights,
+        });
+        // A group with a single or only equal values is drawn without a curve or bounds
+        const groupFit = await computeService.fitSample(
+          { values: groupValues, weights: groupWeights },
+          analysisOptions,
+          binWidth,
+          true
+        );
+        const color = COMPARISON_COLORS[i % COMPARISON_COLORS.length];
+        return {
+          label: group.label,
+          color,
+          sample: { values: groupValues, weights: groupWeights },
+          histogramData: toHistogramData(
+            bins,
+            await computeService.countIntoBins(groupValues, bins, groupWeights),
+            total
+          ),
+          fitData: groupFit?.curve ?? [],
+          row: {
+            label: group.label,
+            color,
+            n: groupValues.length,
+            mean: statistics.mean,
+            standardDeviation: statistics.standardDeviation,
+            lowerBound: groupFit?.bounds?.lower ?? null,
+            upperBound: groupFit?.bounds?.upper ?? null,
+          },
+        };
+      })
+    );
+    throwIfAborted(signal);
+
+    const comparison: ComparisonRow[] | null = isComparison
+      ? [
+          {
+            label: primaryLabel,
+            color: COMPARISON_COLORS[0],
+            n: analysis.n,
+            mean,
+            standardDeviation,
+            tTest: null,
+            fTest: null,
+          },
+          ...comparisonSeries.map((series) => series.row),
+        ]
+      : null;
 
-    const maxY = Math.max(...histogramData.map((data) => data.value[1]));
+    let baselineSeries: {
+      histogramData: HistogramPoint[];
+      fitData: number[][];
+    } | null = null;
+    let baselineResult: BaselineResult | null = null;
+    let baselineUnavailable: string | null = null;
+    const baselineFit = hasBaseline
+      ? await computeService.fitSample(
+          baselineSample,
+          analysisOptions,
+          binWidth
+        )
+      : null;
+    throwIfAborted(signal);
+    if (baselineRange && !hasBaseline) {
+      baselineUnavailable = 'No data in the baseline period';
+    } else if (baselineRange && !baselineFit) {
+      baselineUnavailable =
+        'The distribution cannot be fitted to the values of the baseline period';
+    } else if (baselineRange && baselineFit) {
+      const baselineStatistics = this._toRowStatistics(baselineSample);
+      const baselineTotal = this._getSampleTotal(baselineSample);
+      baselineSeries = {
+        histogramData: toHistogramData(
+          bins,
+          await computeService.countIntoBins(
+            baselineValues,
+            bins,
+            baselineSample.weights
+          ),
+          baselineTotal
+        ),
+        fitData: baselineFit.curve,
+      };
+      baselineResult = {
+        timeRange: baselineRange,
+        ...baselineStatistics,
+        meanDelta: mean - baselineStatistics.mean,
+        standardDeviationDelta:
+          standardDeviation - baselineStatistics.standardDeviation,
+      };
+      throwIfAborted(signal);
+    }
 
-    const normalData = generateNormalDistributionData(
+    const option = createHistogramOption(analysis, {
+      decimals,
+      unit,
+      resolution,
+      durationUnit,
+      specificationLimits,
+      showQuartiles,
+      primaryLabel,
+      comparisonSeries,
+      comparison,
+      baselineSeries,
+      groupSeries,
+    });
+
+    // Use notMerge: true to avoid merging with previous state (cleaner re-renders)
+    let chartOption: echarts.EChartsCoreOption = option;
+    if (controlChart) {
+      chartOption = createControlChartOption(controlChart, decimals, unit);
+    } else if (viewMode === 'ecdf') {
+      chartOption = createEcdfOption(
+        // Like the grouped histogram, the groups replace the curve of all values
+        groupSeries.length
+          ? groupSeries
+          : [
+              {
+                label: primaryLabel,
+                color: COMPARISON_COLORS[0],
+                sample: analysis.sample,
+              },
+              ...comparisonSamples.map((sample, i) => ({
+                label: sample.label,
+                color: COMPARISON_COLORS[(i + 1) % COMPARISON_COLORS.length],
+                sample,
+              })),
+            ],
+        isComparison || groupSeries.length ? null : { mean, standardDeviation },
+        specificationMarkLines,
+        decimals,
+        unit
+      );
+    } else if (viewMode === 'qq') {
+      chartOption = createQuantilePlotOption(
+        normalQuantilePlot(
+          values,
+          weights,
+          mean,
+          standardDeviation,
+          confidenceLevelPercentage
+        ),
+        confidenceLevelPercentage,
+        specificationMarkLines,
+        decimals,
+        unit
+      );
+    } else if (groupSeries.length) {
+      chartOption = createGroupedOption(
+        groupSeries,
+        groupBy.display ?? 'overlay',
+        {
+          tooltip: option.tooltip,
+          xAxis: option.xAxis,
+          frequencyLabel,
+          specificationMarkLines,
+        }
+      );
+    }
+    this.myChart.setOption(chartOption, { notMerge: true });
+    this.myChart.resize();
+    // Small multiples have an x-axis per group, the brush only covers one
+    if (
+      viewMode === 'histogram' &&
+      !(groupSeries.length && groupBy.display === 'small-multiples')
+    ) {
+      this.myChart.dispatchAction({
+        type: 'takeGlobalCursor',
+        key: 'brush',
+        brushOption: { brushType: 'lineX', brushMode: 'single' },
+      });
+    }
+
+    return {
+      analysis,
+      timeRange,
       mean,
       standardDeviation,
-      data.length,
-      binSize,
-      maxY // pass the maximum Y value here
-    );
+      capability: analysis.capability,
+      normality: analysis.normality,
+      fit,
+      bounds,
+      beyondBounds: analysis.beyondBounds,
+      intervals,
+      quartiles,
+      comparison,
+      groups: groupSeries.length
+        ? groupSeries.map((series) => series.row)
+        : null,
+      baseline: baselineResult,
+      baselineUnavailable,
+      controlChart,
+      controlChartWindow:
+        controlChart && analysis.isSampled
+          ? { size: MAX_SAMPLE_SIZE, count: analysis.n }
+          : null,
+      sampled: analysis.isSampled
+        ? { size: values.length, count: analysis.n }
+        : null,
+      approximate: analysis.aggregated,
+      excluded: analysis.filters.excluded,
+      export: {
+        points: exportPoints,
+        bins: bins.map(({ start, end, count, share }) => ({
+          start,
+          end,
+          count,
+          share,
+        })),
+        curve: analysis.curve,
+        frequencyLabel,
+        statistics: {
+          metric: primaryLabel,
+          unit: unit || null,
+          from: timeRange.from,
+          to: timeRange.to,
+          n: analysis.n,
+          mean,
+          standardDeviation,
+          lowerBound: bounds.lower,
+          upperBound: bounds.upper,
+          boundMethod: bounds.method,
+          confidenceLevelPercentage,
+          median: quartiles.median,
+          interquartileRange: quartiles.q3 - quartiles.q1,
+          meanConfidenceInterval: intervals.mean,
+          standardDeviationConfidenceInterval: intervals.standardDeviation,
+          model: fitName,
+          timeWeighted: !!durationUnit,
+          excluded: analysis.filters.excluded,
+          points: analysis.aggregated
+            ? 'aggregated'
+            : analysis.isSampled
+              ? 'sampled'
+              : 'all',
+        },
+      },
+    };
+  }
+
+  clearRangeSelection() {
+    this.myChart.dispatchAction({ type: 'brush', areas: [] });
+  }
 
-    if (!normalData?.length) {
-      const error = `Not enough data available, mean = ${mean}`;
-      throw new Error(error);
+  /**
+   * Draws the histogram of the points loaded so far.
+   * @returns Whether it was drawn, not when there are no points yet or the draw was superseded
+   */
+  async _drawPreview(
+    accumulator: RemoteAccumulator,
+    binning: BinningOptions,
+    durationUnit: DurationUnit | null,
+    signal: AbortSignal
+  ) {
+    const { bins, normalCurve } = await accumulator.getPreview(binning);
+    if (!bins.length || signal.aborted) {
+      return false;
     }
+    this.myChart.setOption(
+      createPreviewOption(bins, normalCurve, durationUnit),
+      { notMerge: true }
+    );
+    return true;
+  }
 
-    const zScore = getZScoreForConfidence(confidenceLevelPercentage);
+  _getBaselineRange(
+    { mode = 'none', from, to }: BaselineOptions,
+    { from: currentFrom, to: currentTo }: LoggingDataTimeRange
+  ): LoggingDataTimeRange | null {
+    switch (mode) {
+      case 'previous-period':
+        return { from: 2 * currentFrom - currentTo, to: currentFrom };
+      case 'previous-week': {
+        const week = 7 * 24 * 60 * 60 * 1000;
+        return { from: currentFrom - week, to: currentTo - week };
+      }
+      case 'fixed': {
+        const fixedFrom = Date.parse(from ?? '');
+        const fixedTo = Date.parse(to ?? '');
+        if (isNaN(fixedFrom) || isNaN(fixedTo) || fixedFrom >= fixedTo) {
+          throw new Error(
+            'Invalid baseline range, enter a valid start and end'
+          );
+        }
+        return { from: fixedFrom, to: fixedTo };
+      }
+      default:
+        return null;
+    }
+  }
 
-    const [lowerBound, upperBound] = getConfidenceInterval(
-      mean,
-      standardDeviation,
-      zScore
+  async _getBaselineSample(
+    timeRange: LoggingDataTimeRange,
+    factor: number,
+    decimals: number,
+    resampling: ResamplingOptions,
+    filterOptions: OutlierFilterOptions,
+    gateOptions: GateOptions | null,
+    durationUnit: DurationUnit | null,
+    signal: AbortSignal,
+    onProgress?: ProgressCallback
+  ): Promise<Sample> {
+    const gate = gateOptions
+      ? await this._getGate(gateOptions, timeRange, signal, onProgress)
+      : null;
+    const data = await this._getPoints(
+      new DataService(this.context, timeRange, signal),
+      resampling,
+      factor,
+      decimals,
+      onProgress
     );
+    return this._toSample(
+      data ?? [],
+      filterOptions,
+      gate,
+      timeRange.to,
+      durationUnit
+    );
+  }
 
-    const xMin = normalData[0][0];
-    const xMax = normalData[normalData.length - 1][0];
+  async _getComparisonSamples(
+    comparisonMetrics: ComparisonMetric[],
+    timeRange: LoggingDataTimeRange,
+    resampling: ResamplingOptions,
+    filterOptions: OutlierFilterOptions,
+    gate: Gate | null,
+    durationUnit: DurationUnit | null,
+    signal: AbortSignal,
+    onProgress?: ProgressCallback
+  ) {
+    const samples: (Sample & { label: string })[] = [];
+    const dataService = new DataService(this.context, timeRange, signal);
+
+    for (const { label, metric } of comparisonMetrics) {
+      if (!metric?.selector) {
+        continue;
+      }
+
+      const data = await this._getPoints(
+        dataService,
+        resampling,
+        metric.factor || 1,
+        metric.decimals ?? 2,
+        onProgress,
+        metric.selector
+      );
+      const sample = this._toSample(
+        data ?? [],
+        filterOptions,
+        gate,
+        dataService.timeRange.to,
+        durationUnit
+      );
+      if (!sample.values.length) {
+        continue;
+      }
+
+      samples.push({
+        label: label || this._getMetricLabel(metric.selector),
+        ...sample,
+      });
+    }
 
-    // Round xMin and xMax to the specified number of decimals
+    return samples;
+  }
+
+  // All points of a metric, resampled when resampling is set
+  async _getPoints(
+    dataService: DataService,
+    resampling: ResamplingOptions,
+    factor: number,
+    decimals: number,
+    onProgress?: ProgressCallback,
+    selector?: string
+  ) {
+    if (!isResampling(resampling)) {
+      return dataService.getAllRawMetrics(
+        factor,
+        decimals,
+        onProgress,
+        selector
+      );
+    }
+    const data: { time: number; value: number }[] = [];
+    const count = await this._streamResampled(
+      dataService,
+      resampling,
+      (points) => {
+        for (const point of points) {
+          data.push(point);
+        }
+      },
+      factor,
+      decimals,
+      onProgress,
+      selector
+    );
+    return count === null ? null : data;
+  }
+
+  /**
+   * Streams a metric resampled to fixed intervals, either from the raw points or from the
+   * steps DataList aggregates. Sample-and-hold has no server-side counterpart: it takes the
+   * last value of every step, which holds at the start of the next one.
+   * @returns The number of resampled points, or null when the metric cannot be found
+   */
+  async _streamResampled(
+    dataService: DataService,
+    { mode, interval, method = 'hold' }: ResamplingOptions,
+    onPoints: (points: { time: number; value: number }[]) => void,
+    factor: number,
+    decimals: number,
+    onProgress?: ProgressCallback,
+    selector?: string
+  ) {
+    const { from, to } = dataService.timeRange;
+    // DataList steps are whole seconds
+    const stepSeconds =
+      mode === 'server'
+        ? Math.max(1, Math.round(interval ?? 0))
+        : (interval ?? 0);
+    const stepMilliseconds = stepSeconds * 1000;
     const multiplier = Math.pow(10, decimals);
-    const xMinRounded = Math.round(xMin * multiplier) / multiplier;
-    const xMaxRounded = Math.round(xMax * multiplier) / multiplier;
-
-    const option = {
-      // Disable animations for instant rendering (critical for PDF snapshots)
-      animation: false,
-      // title: {
-      //   text: "Normal Distribution and Actual Data",
-      // },
-      tooltip: {
-        trigger: 'item',
-        axisPointer: {
-          type: 'cross',
-        },
-        formatter: (params: any) => {
-          let value: string;
-          if (typeof params.value[0] === 'number') {
-            if (decimals === 0) {
-              value = Math.round(params.value[0]).toString();
-            } else {
-              value = Number(params.value[0]).toFixed(decimals);
+    let count = 0;
+    const resampler = new Resampler(
+      method,
+      stepMilliseconds,
+      from,
+      to,
+      (points) => {
+        count += points.length;
+        // Means are rounded like the logged values, so the bins line up with them
+        onPoints(
+          method === 'mean'
+            ? points.map(({ time, value }) => ({
+                time,
+                value: Math.round(value * multiplier) / multiplier,
+              }))
+            : points
+        );
+      }
+    );
+
+    const found =
+      mode === 'server'
+        ? await dataService.streamSteps(
+            (points) =>
+              resampler.add(
+                method === 'hold'
+                  ? points.map(({ time, value }) => ({
+                      time: time + stepMilliseconds,
+                      value,
+                    }))
+                  : points
+              ),
+            stepSeconds,
+            method === 'hold' ? 'last' : method,
+            factor,
+            decimals,
+            onProgress,
+            selector
+          )
+        : await dataService.streamRawMetrics(
+            (points) => resampler.add(points),
+            factor,
+            decimals,
+            onProgress,
+            selector
+          );
+    if (found === null) {
+      return null;
+    }
+    resampler.finish();
+    return count;
+  }
+
+  _withTimeWeights(
+    data: { time: number; value: number }[],
+    end: number,
+    durationUnit: DurationUnit
+  ) {
+    const chronological = [...data].sort((a, b) => a.time - b.time);
+    const durations = calculateTimeWeights(chronological, end);
+    return chronological.map((d, i) => ({
+      ...d,
+      weight: durations[i] / durationUnit.milliseconds,
+    }));
+  }
+
+  _toSample(
+    data: { time: number; value: number }[],
+    filterOptions: OutlierFilterOptions,
+    gate: Gate | null,
+    end: number,
+    durationUnit: DurationUnit | null
+  ): Sample {
+    let points: { time: number; value: number; weight?: number }[] =
+      durationUnit ? this._withTimeWeights(data, end, durationUnit) : data;
+    if (gate) {
+      // Like the main metric, time-weighted values only count while the gate was open
+      points = durationUnit
+        ? points.reduce<typeof points>((open, point) => {
+            const duration = gate.getOpenDuration(
+              point.time,
+              point.time + (point.weight ?? 0) * durationUnit.milliseconds
+            );
+            if (duration > 0) {
+              open.push({
+                ...point,
+                weight: duration / durationUnit.milliseconds,
+              });
             }
-          } else {
-            value = params.value[0];
-          }
-          const unitText = unit ? ` ${unit}` : '';
-          return `Value: ${value}${unitText}<br>Frequency: ${params.value[1]}`;
-        },
-      },
-      legend: {
-        data: ['Histogram', 'Normal distribution'],
-      },
-      xAxis: {
-        type: 'value',
-        name: 'Value',
-        axisLine: {
-          onZero: false,
-        },
-        min: xMinRounded,
-        max: xMaxRounded,
-        splitLine: {
-          show: false,
-        },
-      },
-      yAxis: {
-        type: 'value',
-        name: 'Frequency',
-        min: 0,
-        max: maxY,
-        axisLine: {
-          onZero: false,
-        },
-      },
-      series: [
-        {
-          name: 'Histogram',
-          type: 'bar',
-          data: histogramData,
-          barWidth: '99%',
-          itemStyle: {
-            color: '#5470C6',
-            opacity: 0.7,
-          },
-        },
-        {
-          name: 'Normal distribution',
-          type: 'line',
-          data: normalData,
-          showSymbol: false,
-          smooth: true,
-          lineStyle: {
-            width: 2,
-            color: 'rgba(255, 0, 0, 0.5)',
-          },
-          tooltip: {
-            show: false,
-          },
-          markLine: {
-            symbol: ['none', 'none', 'none'],
-            label: {
-              normal: {
-                show: true,
-              },
-            },
-            itemStyle: {
-              color: 'rgba(255, 0, 0, 0.5)',
-            },
-            tooltip: {
-              show: false,
-            },
-            data: [
-              {
-                name: `Lower Bound: ${
-                  decimals === 0
-                    ? Math.round(lowerBound).toString()
-                    : lowerBound.toFixed(decimals)
-                }`,
-                xAxis: lowerBound,
-              },
-              {
-                name: `Mean: ${
-                  decimals === 0
-                    ? Math.round(mean).toString()
-                    : mean.toFixed(decimals)
-                }`,
-                xAxis: mean,
-              },
-              {
-                name: `Upper Bound: ${
-                  decimals === 0
-                    ? Math.round(upperBound).toString()
-                    : upperBound.toFixed(decimals)
-                }`,
-                xAxis: upperBound,
-              },
-            ],
-          },
-        },
-      ],
+            return open;
+          }, [])
+        : points.filter((point) => gate.isOpen(point.time));
+    }
+    points = filterOutliers(points, filterOptions).points;
+    points.sort((a, b) => a.value - b.value);
+    return {
+      values: points.map((d) => d.value),
+      weights: durationUnit ? points.map((d) => d.weight ?? 0) : undefined,
     };
+  }
 
-    // Use notMerge: true to avoid merging with previous state (cleaner re-renders)
-    this.myChart.setOption(option, { notMerge: true });
-    this.myChart.resize();
+  async _getGate(
+    { metric, condition }: GateOptions,
+    timeRange: LoggingDataTimeRange,
+    signal: AbortSignal,
+    onProgress?: ProgressCallback
+  ) {
+    const gate = await new DataService(this.context, timeRange, signal).getGate(
+      metric.selector,
+      condition,
+      metric.factor || 1,
+      metric.decimals ?? 2,
+      onProgress
+    );
+    if (!gate) {
+      throw new Error('The gate metric could not be found');
+    }
+    return gate;
+  }
+
+  async _getGroupTimeline(
+    metric: ComparisonMetric['metric'],
+    timeRange: LoggingDataTimeRange,
+    signal: AbortSignal,
+    onProgress?: ProgressCallback
+  ) {
+    const points = await new DataService(
+      this.context,
+      timeRange,
+      signal
+    ).getAllRawMetrics(
+      metric.factor || 1,
+      metric.decimals ?? 2,
+      onProgress,
+      metric.selector
+    );
+    if (!points) {
+      throw new Error('The group metric could not be found');
+    }
+    return { series: new StepSeries(points), decimals: metric.decimals ?? 2 };
+  }
+
+  _getGroupKeyFunction(
+    { mode = 'none', metric, shiftStarts = [] }: GroupByOptions,
+    timeline: { series: StepSeries; decimals: number } | null
+  ): ((point: SampledPoint) => GroupKey | null) | null {
+    if (mode === 'shift' && shiftStarts.length) {
+      return (point) => getShift(point.time, shiftStarts);
+    }
+    if (mode === 'metric' && metric && timeline) {
+      const label = this._getMetricLabel(metric.selector);
+      return (point) => {
+        const value = timeline.series.getValueAt(point.time);
+        return value === null
+          ? null
+          : {
+              order: value,
+              label: `${label} ${formatValue(value, timeline.decimals)}`,
+            };
+      };
+    }
+    return null;
+  }
+
+  _getSampleTotal({ values, weights }: Sample) {
+    return weights
+      ? weights.reduce((acc, weight) => acc + weight, 0)
+      : values.length;
+  }
+
+  _toRowStatistics({ values, weights }: Sample) {
+    const { mean, standardDeviation } = weights
+      ? calculateWeightedStatistics(values, weights)
+      : calculateStatistics(values.map((value) => ({ time: 0, value })));
+    return { n: values.length, mean, standardDeviation };
+  }
 
-    return standardDeviation;
+  _getMetricLabel(selector: string) {
+    return selector.split('.tag.')[1] ?? selector;
   }
 }
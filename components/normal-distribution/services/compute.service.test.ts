@@ -0,0 +1,150 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  ComputeService,
+  ComputeWorkerStoppedError,
+  restartOnWorkerStop,
+} from './compute.service';
+import type { WorkerMessage, WorkerTask } from './compute.worker';
+import type { KernelName } from '../utils/compute-kernels';
+
+// The worker started last, and the kernel it stops at instead of running it
+const workers = vi.hoisted(() => ({
+  current: null as { tasks: number } | null,
+  stopAt: null as KernelName | null,
+}));
+
+// Runs the kernels in this thread like the worker does, sharing their accumulators
+vi.mock('./compute.worker?worker&inline', async () => {
+  const { KERNELS } = await import('../utils/compute-kernels');
+  const run = KERNELS as Record<string, (...args: unknown[]) => unknown>;
+
+  class FakeWorker {
+    onmessage: ((event: { data: WorkerMessage }) => void) | null = null;
+    onerror: (() => void) | null = null;
+    tasks = 0;
+    private accumulatorIds: unknown[] = [];
+    private stopped = false;
+
+    constructor() {
+      workers.current = this;
+      setTimeout(() => this.post({ ready: true }));
+    }
+
+    postMessage({ id, kernel, args }: WorkerTask) {
+      this.tasks++;
+      const copies = structuredClone(args);
+      setTimeout(() => {
+        if (this.stopped) {
+          return;
+        }
+        if (kernel === workers.stopAt) {
+          this.die();
+          return;
+        }
+        if (kernel === 'createAccumulator') {
+          this.accumulatorIds.push(copies[0]);
+        }
+        try {
+          this.post({ id, result: run[kernel](...copies, () => {}) });
+        } catch (error) {
+          this.post({ id, error: (error as Error).message });
+        }
+      });
+    }
+
+    terminate() {
+      this.stopped = true;
+    }
+
+    // Stops like a worker that ran out of memory, its accumulators are gone
+    private die() {
+      this.stopped = true;
+      this.accumulatorIds.forEach((id) => run.deleteAccumulator(id));
+      this.onerror?.();
+    }
+
+    private post(message: WorkerMessage) {
+      if (!this.stopped) {
+        this.onmessage?.({ data: message });
+      }
+    }
+  }
+
+  return { default: FakeWorker };
+});
+
+// Mean 5 and population standard deviation 2
+const POINTS = [2, 4, 4, 4, 5, 5, 7, 9].map((value, i) => ({
+  time: i * 1000,
+  value,
+}));
+
+// Folds the points in two pages like a draw does, then analyses them
+async function draw(service: ComputeService) {
+  const options = { resolution: 1 };
+  const accumulator = service.createAccumulator(
+    options,
+    null,
+    new AbortController().signal,
+  );
+  accumulator.add(POINTS.slice(0, 4));
+  accumulator.add(POINTS.slice(4));
+  await accumulator.finish();
+  return accumulator.analyze(options, null);
+}
+
+describe('ComputeService', () => {
+  beforeEach(() => {
+    vi.stubGlobal('Worker', class {});
+    workers.current = null;
+    workers.stopAt = null;
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('analyses the points in the worker', async () => {
+    const analysis = await draw(new ComputeService());
+    expect(workers.current?.tasks).toBe(5);
+    expect(analysis.n).toBe(8);
+    expect(analysis.mean).toBe(5);
+  });
+
+  it('fails the draw when the worker stops while folding the points in', async () => {
+    workers.stopAt = 'addPoints';
+    await expect(draw(new ComputeService())).rejects.toBeInstanceOf(
+      ComputeWorkerStoppedError,
+    );
+  });
+
+  it('fails an accumulator of the stopped worker on the main thread', async () => {
+    const service = new ComputeService();
+    const accumulator = service.createAccumulator(
+      { resolution: 1 },
+      null,
+      new AbortController().signal,
+    );
+    workers.stopAt = 'addPoints';
+    accumulator.add(POINTS);
+    await expect(accumulator.finish()).rejects.toBeInstanceOf(
+      ComputeWorkerStoppedError,
+    );
+
+    // Without the worker, the kernels would report that the accumulator was deleted
+    await expect(accumulator.getSampleSummary()).rejects.toBeInstanceOf(
+      ComputeWorkerStoppedError,
+    );
+  });
+
+  it('starts the draw over on the main thread when the worker stopped', async () => {
+    workers.stopAt = 'addPoints';
+    const service = new ComputeService();
+    const analysis = await restartOnWorkerStop(() => draw(service));
+    // Only the accumulator and its pages reached the worker, the rest ran here
+    expect(workers.current?.tasks).toBe(3);
+    expect(analysis.n).toBe(8);
+    expect(analysis.mean).toBe(5);
+    expect(analysis.standardDeviation).toBeCloseTo(2, 12);
+  });
+});
@@ -0,0 +1,363 @@
+import {
+  KERNELS,
+  getBuffers,
+  type KernelName,
+  type ProgressReport,
+} from '../utils/compute-kernels';
+import type { AnalysisOptions } from '../utils/analysis';
+import type { Bin, BinningOptions } from '../utils/binning';
+import type { Fences, OutlierFilterOptions } from '../utils/outliers';
+import type { AggregatedBucket, SampledPoint } from '../utils/streaming';
+import ComputeWorker from './compute.worker?worker&inline';
+import type { WorkerMessage, WorkerTask } from './compute.worker';
+import type { ProgressCallback } from './data.service';
+
+// A worker that did not report that it runs by then is given up on
+const WORKER_START_TIMEOUT_MS = 10000;
+
+type Kernels = typeof KERNELS;
+
+// Arguments of a kernel, without the progress report that is added to them
+type KernelArgs<K extends KernelName> =
+  Parameters<Kernels[K]> extends [...infer Args, ProgressReport]
+    ? Args
+    : Parameters<Kernels[K]>;
+
+type KernelResult<K extends KernelName> = ReturnType<Kernels[K]>;
+
+// The kernels as they are called, with the progress report after their arguments
+const kernels: {
+  [K in KernelName]: (
+    ...args: [...KernelArgs<K>, ProgressReport]
+  ) => KernelResult<K>;
+} = KERNELS;
+
+type RunKernel = <K extends KernelName>(
+  kernel: K,
+  args: KernelArgs<K>,
+  report?: ProgressReport,
+) => Promise<KernelResult<K>>;
+
+type Task = {
+  resolve: (result: unknown) => void;
+  reject: (error: Error) => void;
+  report: ProgressReport;
+};
+
+/**
+ * The compute worker stopped while it ran a task, or after it created an accumulator that was
+ * still used. The work can be started again, it then runs on the main thread.
+ */
+export class ComputeWorkerStoppedError extends Error {
+  constructor() {
+    super('The compute worker stopped');
+    this.name = 'ComputeWorkerStoppedError';
+  }
+}
+
+/**
+ * Runs the work again when the compute worker stopped during it. That happens at most once,
+ * since the kernels run on the main thread after the worker stopped.
+ */
+export async function restartOnWorkerStop<T>(work: () => Promise<T>) {
+  try {
+    return await work();
+  } catch (error) {
+    if (!(error instanceof ComputeWorkerStoppedError)) {
+      throw error;
+    }
+    return work();
+  }
+}
+
+/**
+ * Runs the kernels of `compute-kernels` in a Web Worker, so parsing, folding and analysing
+ * hundreds of thousands of points does not freeze the dashboard. Typed arrays are transferred
+ * to and from the worker instead of copied, so the arrays passed to a kernel cannot be used
+ * afterwards. When workers are unavailable, e.g. blocked by a content security policy, the
+ * kernels run on the main thread instead. Every task waits until that is known, so the tasks
+ * run in the order they were started and an accumulator stays where it was created.
+ */
+export class ComputeService {
+  private worker: Worker | null = null;
+  // Resolves with the worker once it reported that it runs, or with null to run the tasks here
+  private starting: Promise<Worker | null> | null = null;
+  private tasks = new Map<number, Task>();
+  private nextId = 0;
+  private nextAccumulatorId = 0;
+  // Number of workers that stopped after they started, taking their accumulators with them
+  private stoppedWorkers = 0;
+
+  /**
+   * Drops the values that are not numbers and applies the factor and rounding of the metric.
+   */
+  async normalizePoints(
+    points: { time: number; value: number }[],
+    factor: number,
+    decimals: number,
+    onProgress?: ProgressCallback,
+  ) {
+    const { times, values } = await this.run(
+      'normalizePoints',
+      [
+        Float64Array.from(points, (point) => point.time),
+        Float64Array.from(points, (point) => point.value),
+        factor,
+        decimals,
+      ],
+      (current, total) => onProgress?.('Processing data...', current, total),
+    );
+    return Array.from(values, (value, i) => ({ time: times[i], value }));
+  }
+
+  /**
+   * Sorts the points by value, keeping the chronological order of equal values.
+   */
+  async sortPoints(points: SampledPoint[]): Promise<SampledPoint[]> {
+    const isWeighted = points.some((point) => point.weight !== undefined);
+    const sorted = await this.run('sortByValue', [
+      Float64Array.from(points, (point) => point.value),
+      Float64Array.from(points, (point) => point.time),
+      isWeighted
+        ? Float64Array.from(points, (point) => point.weight ?? 1)
+        : null,
+    ]);
+    return Array.from(sorted.values, (value, i) =>
+      sorted.weights
+        ? { time: sorted.times[i], value, weight: sorted.weights[i] }
+        : { time: sorted.times[i], value },
+    );
+  }
+
+  /**
+   * Counts the values into existing bins, like `countIntoBins`.
+   * @param weights Optional weight per value, summed instead of counting the values
+   */
+  async countIntoBins(values: number[], bins: Bin[], weights?: number[]) {
+    if (!bins.length) {
+      return [];
+    }
+    const counts = await this.run('countBins', [
+      Float64Array.from(values),
+      weights ? Float64Array.from(weights) : null,
+      bins[0].start,
+      bins[0].end - bins[0].start,
+      bins.length,
+    ]);
+    return Array.from(counts);
+  }
+
+  /**
+   * Creates an accumulator in the worker, see `createDistributionAccumulator`. It is deleted
+   * when the signal aborts. Once the worker stopped, every call fails with a
+   * `ComputeWorkerStoppedError`, as the points folded in so far are gone.
+   * @param fences Bounds of the statistical outlier method, found in an earlier pass
+   */
+  createAccumulator(
+    options: AnalysisOptions,
+    fences: Fences | null,
+    signal: AbortSignal,
+  ) {
+    const stoppedWorkers = this.stoppedWorkers;
+    const run: RunKernel = (kernel, args, report) =>
+      this.stoppedWorkers === stoppedWorkers
+        ? this.run(kernel, args, report)
+        : Promise.reject(new ComputeWorkerStoppedError());
+    return new RemoteAccumulator(
+      run,
+      this.nextAccumulatorId++,
+      options,
+      fences,
+      signal,
+    );
+  }
+
+  /**
+   * Fits the model of the options to the sample of another series, see `fitSample`.
+   */
+  fitSample(
+    sample: { values: number[]; weights?: number[] },
+    options: AnalysisOptions,
+    binWidth: number,
+    withBounds = false,
+  ) {
+    return this.run('fitSample', [sample, options, binWidth, withBounds]);
+  }
+
+  private async run<K extends KernelName>(
+    kernel: K,
+    args: KernelArgs<K>,
+    report: ProgressReport = () => {},
+  ): Promise<KernelResult<K>> {
+    const worker = await this.getWorker();
+    if (!worker) {
+      return kernels[kernel](...args, report);
+    }
+    return new Promise((resolve, reject) => {
+      const id = this.nextId++;
+      this.tasks.set(id, {
+        resolve: (result) => resolve(result as KernelResult<K>),
+        reject,
+        report,
+      });
+      const task: WorkerTask = { id, kernel, args };
+      worker.postMessage(task, getBuffers(args));
+    });
+  }
+
+  private getWorker() {
+    if (!this.starting) {
+      this.starting = this.start();
+    }
+    return this.starting;
+  }
+
+  private start() {
+    return new Promise<Worker | null>((resolve) => {
+      if (typeof Worker === 'undefined') {
+        resolve(null);
+        return;
+      }
+      let worker: Worker;
+      try {
+        worker = new ComputeWorker();
+      } catch {
+        resolve(null);
+        return;
+      }
+      this.worker = worker;
+      let started = false;
+      const timeout = setTimeout(() => {
+        this.stop(false);
+        resolve(null);
+      }, WORKER_START_TIMEOUT_MS);
+      worker.onmessage = (event: MessageEvent<WorkerMessage>) => {
+        if ('ready' in event.data) {
+          clearTimeout(timeout);
+          started = true;
+          resolve(worker);
+          return;
+        }
+        this.onMessage(event.data);
+      };
+      // A worker that fails to load reports an error instead of being ready
+      worker.onerror = () => {
+        clearTimeout(timeout);
+        this.stop(started);
+        resolve(null);
+      };
+    });
+  }
+
+  private onMessage(message: Exclude<WorkerMessage, { ready: true }>) {
+    const task = this.tasks.get(message.id);
+    if (!task) {
+      return;
+    }
+    if ('progress' in message) {
+      task.report(...message.progress);
+      return;
+    }
+    this.tasks.delete(message.id);
+    if ('error' in message) {
+      task.reject(new Error(message.error));
+    } else {
+      task.resolve(message.result);
+    }
+  }
+
+  // Falls back to the main thread for good, the tasks in flight lost their transferred arrays
+  // and the accumulators in a started worker are gone
+  private stop(started: boolean) {
+    this.worker?.terminate();
+    this.worker = null;
+    this.starting = Promise.resolve(null);
+    if (started) {
+      this.stoppedWorkers++;
+    }
+    for (const task of this.tasks.values()) {
+      task.reject(new ComputeWorkerStoppedError());
+    }
+    this.tasks.clear();
+  }
+}
+
+/**
+ * A `DistributionAccumulator` in the compute worker. Points are posted without waiting until
+ * they are folded in, the worker folds them in the order they were sent.
+ */
+export class RemoteAccumulator {
+  // Settles once the points added so far are folded in
+  private folded: Promise<unknown> = Promise.resolve();
+  private deleted = false;
+
+  constructor(
+    private run: RunKernel,
+    private id: number,
+    options: AnalysisOptions,
+    fences: Fences | null,
+    signal: AbortSignal,
+  ) {
+    this.track(this.run('createAccumulator', [id, options, fences]));
+    signal.addEventListener('abort', () => this.delete(), { once: true });
+  }
+
+  add(points: { time: number; value: number }[]) {
+    this.track(
+      this.run('addPoints', [
+        this.id,
+        Float64Array.from(points, (point) => point.time),
+        Float64Array.from(points, (point) => point.value),
+      ]),
+    );
+  }
+
+  addBuckets(buckets: AggregatedBucket[], stepMilliseconds: number) {
+    this.track(this.run('addBuckets', [this.id, buckets, stepMilliseconds]));
+  }
+
+  /**
+   * Waits until all points are folded in, and fails when folding in any of them failed.
+   */
+  async finish() {
+    await this.folded;
+    await this.run('finishAccumulator', [this.id]);
+  }
+
+  getFences(filters: OutlierFilterOptions) {
+    return this.run('getFences', [this.id, filters]);
+  }
+
+  getPreview(binning: BinningOptions) {
+    return this.run('getPreview', [this.id, binning]);
+  }
+
+  analyze(options: AnalysisOptions, fences: Fences | null) {
+    return this.run('analyze', [this.id, options, fences]);
+  }
+
+  getSampleSummary() {
+    return this.run('getSampleSummary', [this.id]);
+  }
+
+  getRecentPoints(): Promise<SampledPoint[]> {
+    return this.run('getRecentPoints', [this.id]);
+  }
+
+  delete() {
+    if (this.deleted) {
+      return;
+    }
+    this.deleted = true;
+    this.run('deleteAccumulator', [this.id]).catch(() => {});
+  }
+
+  private track(task: Promise<unknown>) {
+    this.folded = Promise.all([this.folded, task]);
+    // The failure is reported by finish, not as an unhandled rejection
+    this.folded.catch(() => {});
+  }
+}
+
+// One worker is shared by all charts on the page
+export const computeService = new ComputeService();
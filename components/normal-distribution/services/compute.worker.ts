@@ -0,0 +1,32 @@
+import { KERNELS, getBuffers, type KernelName } from '../utils/compute-kernels';
+
+// Tasks from the compute service, the progress report is added to the arguments here
+export type WorkerTask = { id: number; kernel: KernelName; args: unknown[] };
+
+// Messages from the worker, answering the task with the same id
+export type WorkerMessage =
+  | { ready: true }
+  | { id: number; progress: [number, number] }
+  | { id: number; result: unknown }
+  | { id: number; error: string };
+
+function post(message: WorkerMessage, transfer: Transferable[] = []) {
+  self.postMessage(message, { transfer });
+}
+
+self.onmessage = ({ data: { id, kernel, args } }: MessageEvent<WorkerTask>) => {
+  const report = (current: number, total: number) =>
+    post({ id, progress: [current, total] });
+  try {
+    const result = (KERNELS[kernel] as (...args: unknown[]) => unknown)(
+      ...args,
+      report,
+    );
+    post({ id, result }, getBuffers(result));
+  } catch (error) {
+    post({ id, error: error instanceof Error ? error.message : String(error) });
+  }
+};
+
+// The service only sends tasks once the worker and its imports loaded
+post({ ready: true });
@@ -1,4 +1,24 @@
-import type { ComponentContext } from '@ixon-cdk/types';
+import type { ComponentContext, LoggingDataTimeRange } from '@ixon-cdk/types';
+import type { AggregatedBucket } from '../utils/streaming';
+import { Gate, type GateCondition } from '../utils/gate';
+import {
+  LruCache,
+  MAX_CACHED_POINTS,
+  countCachedPoints,
+  getCachedPoints,
+  getPreviousValue,
+  metricCache,
+  sliceCachedRange,
+  type CachedRange,
+} from './metric-cache';
+import { computeService } from './compute.service';
+import {
+  ApiClient,
+  hasStrings,
+  isDataListResponse,
+  isListResponse,
+  type DataListPoint,
+} from './api-client';
 
 type Agent = {
   publicId: string;
@@ -16,12 +36,7 @@ type DataSource = {
   slug: string;
 };
 
-type Metric = {
-  time: string;
-  values: {
-    [key: string]: number;
-  };
-};
+type Metric = DataListPoint;
 
 export type ProgressCallback = (
   stage: string,
@@ -29,12 +44,64 @@ export type ProgressCallback = (
   total?: number,
 ) => void;
 
+// Receives the points of a metric page by page, in chronological order
+export type PointsCallback = (
+  points: { time: number; value: number }[],
+) => void;
+
+export type LoadingMode = 'auto' | 'raw' | 'aggregated';
+
+// Aggregations DataList applies to every step
+export type StepAggregation = 'mean' | 'min' | 'max' | 'last';
+
+export type LoadingOptions = {
+  mode?: LoadingMode;
+  // Number of samples above which the 'auto' mode switches to aggregated data
+  threshold?: number | null;
+};
+
+// Receives the aggregated buckets and the duration of a step in milliseconds
+export type BucketsCallback = (
+  buckets: AggregatedBucket[],
+  stepMilliseconds: number,
+) => void;
+
+// Raw points with the time parsed, before the factor and rounding are applied
+type RawPoint = { time: number; value: number };
+
+// The agent and source lookups only change when the component is set up again
+const agents = new WeakMap<ComponentContext, Promise<Agent>>();
+const sourceIds = new LruCache<string>(100);
+
+const DEFAULT_AGGREGATION_THRESHOLD = 200000;
+
+// Points of the last minute can still be logged or arrive late, so they are never cached
+const RECENT_POINTS_MS = 60 * 1000;
+
+// Number of steps the time range is divided into in aggregated mode, within the DataList query limit
+const AGGREGATION_BUCKET_COUNT = 2000;
+
 export class DataService {
   context;
   headers;
+  timeRange: LoggingDataTimeRange;
+  client: ApiClient;
 
-  constructor(context: ComponentContext) {
+  /**
+   * @param context The component context
+   * @param timeRange Range to query, defaults to the time range of the context
+   * @param signal Cancels the requests when aborted
+   */
+  constructor(
+    context: ComponentContext,
+    timeRange?: LoggingDataTimeRange,
+    signal?: AbortSignal,
+  ) {
     this.context = context;
+    this.timeRange = timeRange ?? {
+      from: context.timeRange.from,
+      to: context.timeRange.to,
+    };
     this.headers = {
       'Content-Type': 'application/json',
       Authorization: 'Bearer ' + this.context.appData.accessToken.secretId,
@@ -42,55 +109,466 @@ export class DataService {
       'Api-Company': this.context.appData.company.publicId,
       'Api-Version': '2',
     };
+    this.client = new ApiClient(this.headers, signal);
   }
 
   async getAllRawMetrics(
     factor = 1,
     decimals = 2,
     onProgress?: ProgressCallback,
+    selector: string | undefined = this.context.inputs.dataSource?.metric
+      ?.selector,
   ): Promise<{ time: number; value: number }[] | null> {
-    if (!this.context.inputs.dataSource?.metric) {
+    const data: { time: number; value: number }[] = [];
+    const count = await this.streamRawMetrics(
+      (points) => {
+        for (const point of points) {
+          data.push(point);
+        }
+      },
+      factor,
+      decimals,
+      onProgress,
+      selector,
+    );
+    return count === null ? null : data;
+  }
+
+  /**
+   * Fetches a gate tag over the time range and finds the periods in which its condition held.
+   * The tag is resolved like the main metric, so it may come from another data source.
+   * @returns The gate, or null when the gate metric cannot be found
+   */
+  async getGate(
+    selector: string,
+    condition: GateCondition,
+    factor = 1,
+    decimals = 2,
+    onProgress?: ProgressCallback,
+  ): Promise<Gate | null> {
+    const points = await this.getAllRawMetrics(
+      factor,
+      decimals,
+      onProgress,
+      selector,
+    );
+    return points ? new Gate(points, condition, this.timeRange.to) : null;
+  }
+
+  /**
+   * Fetches the raw metrics and hands them over page by page as they arrive, so the caller
+   * does not have to keep all points in memory.
+   * @param onPoints Receives the points in chronological order
+   * @returns The number of points, or null when the metric cannot be found
+   */
+  async streamRawMetrics(
+    onPoints: PointsCallback,
+    factor = 1,
+    decimals = 2,
+    onProgress?: ProgressCallback,
+    selector: string | undefined = this.context.inputs.dataSource?.metric
+      ?.selector,
+  ): Promise<number | null> {
+    const result = await this.streamMetrics(
+      onPoints,
+      () => {},
+      { mode: 'raw' },
+      factor,
+      decimals,
+      onProgress,
+      selector,
+    );
+    return result?.count ?? null;
+  }
+
+  /**
+   * Streams the raw metrics like `streamRawMetrics`, or, for very large ranges, fetches
+   * server-side aggregated buckets (min, max, mean and count per step) instead.
+   * @returns The number of samples and whether they were aggregated, or null when the metric cannot be found
+   */
+  async streamMetrics(
+    onPoints: PointsCallback,
+    onBuckets: BucketsCallback,
+    { mode = 'auto', threshold }: LoadingOptions,
+    factor = 1,
+    decimals = 2,
+    onProgress?: ProgressCallback,
+    selector: string | undefined = this.context.inputs.dataSource?.metric
+      ?.selector,
+  ): Promise<{ count: number; aggregated: boolean } | null> {
+    onProgress?.('Connecting...', 0, 0);
+    const tag = await this._resolveSelector(selector);
+    if (!tag) {
       return null;
     }
+    const { sourceId, tagSlug } = tag;
+
+    // Count of the whole range, which is reused to plan the pages when nothing is cached
+    let totalCount: number | undefined;
+    let pointCount = 0;
+    if (mode === 'auto') {
+      const { from, to } = this.timeRange;
+      const cached = await metricCache.get(
+        this._getCacheKey(sourceId, tagSlug),
+        this._isCachePersistent(),
+      );
+      if (!cached || cached.from > from || cached.to < from) {
+        onProgress?.('Counting data points...', 0, 0);
+        totalCount = await this._getTotalCount(sourceId, tagSlug);
+        pointCount = totalCount;
+      } else if (cached.to < to) {
+        // Only the tail after the cached range is fetched, as on every refresh of a rolling range,
+        // so only the tail is counted
+        onProgress?.('Counting data points...', 0, 0);
+        pointCount =
+          countCachedPoints(cached, from, to) +
+          (await this._forTimeRange({ from: cached.to, to })._getTotalCount(
+            sourceId,
+            tagSlug,
+          ));
+      }
+      // A range that is completely cached is loaded from the cache, whatever its size
+    }
+    if (
+      mode === 'aggregated' ||
+      pointCount > (threshold || DEFAULT_AGGREGATION_THRESHOLD)
+    ) {
+      const count = await this._getAggregatedBuckets(
+        sourceId,
+        tagSlug,
+        factor,
+        decimals,
+        onBuckets,
+        onProgress,
+      );
+      return { count, aggregated: true };
+    }
+
+    let count = 0;
+    // Pages are normalized in the compute worker, which answers in the order they were sent.
+    // Chaining the pages keeps them in that order when they are handed over
+    let normalized = Promise.resolve();
+    await this._streamCachedRawMetrics(
+      sourceId,
+      tagSlug,
+      (rawPoints) => {
+        // Filter out non-numeric values, apply the factor and round to the decimals
+        const page = computeService.normalizePoints(
+          rawPoints,
+          factor,
+          decimals,
+          onProgress,
+        );
+        normalized = normalized.then(async () => {
+          const points = await page;
+          count += points.length;
+          onPoints(points);
+        });
+      },
+      onProgress,
+      totalCount,
+    );
+    await normalized;
+    return { count, aggregated: false };
+  }
 
+  /**
+   * Fetches one aggregated value per step of the given length, like the mean or the last value
+   * logged in every step. Steps without samples are left out. Long ranges are split over
+   * several requests, each within the DataList query limit.
+   * @param onPoints Receives the steps in chronological order, timed at their start
+   * @returns The number of steps with a value, or null when the metric cannot be found
+   */
+  async streamSteps(
+    onPoints: PointsCallback,
+    stepSeconds: number,
+    aggregation: StepAggregation,
+    factor = 1,
+    decimals = 2,
+    onProgress?: ProgressCallback,
+    selector: string | undefined = this.context.inputs.dataSource?.metric
+      ?.selector,
+  ): Promise<number | null> {
     onProgress?.('Connecting...', 0, 0);
+    const tag = await this._resolveSelector(selector);
+    if (!tag) {
+      return null;
+    }
+
+    const { from, to } = this.timeRange;
+    const chunkMilliseconds = stepSeconds * 1000 * AGGREGATION_BUCKET_COUNT;
+    const chunkCount = Math.max(1, Math.ceil((to - from) / chunkMilliseconds));
+    const round = (value: number) =>
+      parseFloat((value * factor).toFixed(decimals));
+
+    // Chunks can complete out of order, hold them back to hand the steps over chronologically
+    const completed = new Map<number, { time: number; value: number }[]>();
+    let nextChunk = 0;
+    let count = 0;
+    onProgress?.('Fetching steps...', 0, chunkCount);
+    const tasks = Array.from({ length: chunkCount }, (_, i) => async () => {
+      const chunk = this._forTimeRange({
+        from: from + i * chunkMilliseconds,
+        to: Math.min(to, from + (i + 1) * chunkMilliseconds),
+      });
+      const body = {
+        start: this._toIXONISOString(chunk.timeRange.from),
+        end: this._toIXONISOString(chunk.timeRange.to),
+        timeZone: 'UTC',
+        source: { publicId: tag.sourceId },
+        tags: [
+          {
+            slug: tag.tagSlug,
+            preAggr: 'raw',
+            queries: [
+              {
+                ref: aggregation,
+                postAggr: aggregation,
+                step: stepSeconds,
+                limit: AGGREGATION_BUCKET_COUNT + 1,
+                order: 'asc',
+              },
+            ],
+          },
+        ],
+      };
+      const response = await this.client.post(
+        this.context.getApiUrl('DataList'),
+        body,
+        isDataListResponse,
+      );
+      const points: { time: number; value: number }[] = [];
+      for (const { time, values } of response.data.points) {
+        const value = values[aggregation];
+        // Steps without samples come back empty
+        if (typeof value !== 'number' || isNaN(value)) {
+          continue;
+        }
+        points.push({ time: Date.parse(time), value: round(value) });
+      }
+      completed.set(i, points);
+      while (completed.has(nextChunk)) {
+        const chunkPoints = completed.get(nextChunk)!;
+        count += chunkPoints.length;
+        onPoints(chunkPoints);
+        completed.delete(nextChunk);
+        nextChunk++;
+      }
+      onProgress?.('Fetching steps...', nextChunk, chunkCount);
+    });
+    await this._fetchWithConcurrencyLimit(tasks, 10);
+    return count;
+  }
+
+  // Finds the data source of a selector like "Agent#selected:source.tag.slug"
+  async _resolveSelector(selector: string | undefined) {
+    if (!selector) {
+      return null;
+    }
+    const tagSlug = selector.split('.tag.')[1];
+    const sourceSlug = selector.split('.tag.')[0].split('Agent#selected:')[1];
+    const sourceId = await this._getSourceId(sourceSlug, tagSlug);
+    return sourceId ? { sourceId, tagSlug } : null;
+  }
 
-    const tagSlug =
-      this.context.inputs.dataSource.metric.selector.split('.tag.')[1];
-    const sourceSlug = this.context.inputs.dataSource.metric.selector
-      .split('.tag.')[0]
-      .split('Agent#selected:')[1];
+  async _getSourceId(sourceSlug: string, tagSlug: string) {
+    let agent = agents.get(this.context);
+    if (!agent) {
+      agent = this._getAgent() as Promise<Agent>;
+      agents.set(this.context, agent);
+      // Look the agent up again next time instead of caching the failure
+      agent.catch(() => agents.delete(this.context));
+    }
+    const { publicId } = await agent;
 
-    const agent = (await this._getAgent()) as Agent;
+    const key = `${publicId}/${sourceSlug}/${tagSlug}`;
+    const cachedSourceId = sourceIds.get(key);
+    if (cachedSourceId) {
+      return cachedSourceId;
+    }
 
-    const sources: DataSource[] = await this._getDataSources(agent, sourceSlug);
-    const tags: Tag[] = await this._getTags(agent, [tagSlug]);
+    const sources: DataSource[] = await this._getDataSources(
+      { publicId },
+      sourceSlug,
+    );
+    const tags: Tag[] = await this._getTags({ publicId }, [tagSlug]);
     const filteredTags = tags.filter((tag) => {
       return sources.find((source) => source.publicId === tag.source.publicId);
     });
 
     const sourceId = filteredTags.find((x) => x.slug === tagSlug)?.source
       .publicId;
-    if (!sourceId) {
-      return null;
+    if (sourceId) {
+      sourceIds.set(key, sourceId);
+    }
+    return sourceId ?? null;
+  }
+
+  /**
+   * Streams the raw points of the time range, starting with the point that holds at its start.
+   * Points that are cached are not fetched again: when the cached range overlaps the time
+   * range, only the missing head and tail are requested.
+   */
+  async _streamCachedRawMetrics(
+    sourceId: string,
+    tagSlug: string,
+    onPoints: (points: RawPoint[]) => void,
+    onProgress?: ProgressCallback,
+    totalCount?: number,
+  ) {
+    const key = this._getCacheKey(sourceId, tagSlug);
+    const persistent = this._isCachePersistent();
+    const { from, to } = this.timeRange;
+    // Recent points can still be logged or arrive late, so they are fetched again every time
+    const completeTo = Math.min(
+      getRequestedEnd(to),
+      getRequestedEnd(Date.now() - RECENT_POINTS_MS),
+    );
+    const cached = await metricCache.get(key, persistent);
+
+    const emitPrevious = (previous: number | null) => {
+      if (previous !== null) {
+        onPoints([{ time: from, value: previous }]);
+      }
+    };
+
+    if (cached && cached.from <= from && cached.to >= to) {
+      onProgress?.('Loading cached data...', 0, 0);
+      emitPrevious(getPreviousValue(cached, from));
+      onPoints(getCachedPoints(cached, from, to));
+      return;
+    }
+
+    const head = new RawPointCollector();
+    const tail = new RawPointCollector();
+    let previous: number | null;
+
+    if (!cached || cached.from > to || cached.to < from) {
+      previous = await this._getPreviousValue(sourceId, tagSlug);
+      emitPrevious(previous);
+      await this._streamRawRange(
+        sourceId,
+        tagSlug,
+        this.timeRange,
+        (points) => {
+          head.add(points);
+          onPoints(points);
+        },
+        onProgress,
+        totalCount,
+      );
+      head.store(
+        key,
+        { from, to: completeTo, previous, fetchedAt: Date.now() },
+        persistent,
+      );
+      return;
     }
 
-    const allMetricsOfTagSlug = await this._getAllRawMetricsParallel(
+    if (from < cached.from) {
+      const range = { from, to: cached.from };
+      previous = await this._forTimeRange(range)._getPreviousValue(
+        sourceId,
+        tagSlug,
+      );
+      emitPrevious(previous);
+      await this._streamRawRange(
+        sourceId,
+        tagSlug,
+        range,
+        (points) => {
+          // The cached range already holds the points at its start
+          const missing = points.filter((point) => point.time < cached.from);
+          head.add(missing);
+          onPoints(missing);
+        },
+        onProgress,
+      );
+    } else {
+      previous = cached.previous;
+      emitPrevious(getPreviousValue(cached, from));
+    }
+
+    onPoints(getCachedPoints(cached, from, to));
+
+    if (to > cached.to) {
+      const range = { from: cached.to, to };
+      await this._streamRawRange(
+        sourceId,
+        tagSlug,
+        range,
+        (points) => {
+          const missing = points.filter((point) => point.time > cached.to);
+          tail.add(missing);
+          onPoints(missing);
+        },
+        onProgress,
+      );
+    }
+
+    // A rolling range keeps moving forward, so once the cache is full the points that fell
+    // out of the time range are dropped
+    let kept = cached;
+    if (
+      from > cached.from &&
+      cached.times.length + tail.times.length > MAX_CACHED_POINTS
+    ) {
+      kept = sliceCachedRange(cached, from);
+      previous = kept.previous;
+    }
+
+    RawPointCollector.merge(head, kept, tail).store(
+      key,
+      {
+        from: Math.min(from, kept.from),
+        to: Math.max(completeTo, kept.to),
+        previous,
+        fetchedAt: kept.fetchedAt,
+      },
+      persistent,
+    );
+  }
+
+  async _streamRawRange(
+    sourceId: string,
+    tagSlug: string,
+    timeRange: LoggingDataTimeRange,
+    onPoints: (points: RawPoint[]) => void,
+    onProgress?: ProgressCallback,
+    totalCount?: number,
+  ) {
+    await this._forTimeRange(timeRange)._streamRawMetricsParallel(
       sourceId,
       [tagSlug],
+      (metrics) =>
+        onPoints(
+          metrics.map((metric) => ({
+            time: Date.parse(metric.time),
+            value: metric.values[tagSlug],
+          })),
+        ),
       onProgress,
+      totalCount,
     );
+  }
+
+  async _getPreviousValue(sourceId: string, tagSlug: string) {
+    const lastPoint = await this._getLastPointOfPreviousPeriod(sourceId, [
+      tagSlug,
+    ]);
+    return lastPoint ? lastPoint.values[tagSlug] : null;
+  }
+
+  _getCacheKey(sourceId: string, tagSlug: string) {
+    return `${sourceId}/${tagSlug}`;
+  }
 
-    return allMetricsOfTagSlug
-      .map((x) => ({
-        time: Date.parse(x.time),
-        value: x.values[tagSlug],
-      }))
-      .filter((d) => !isNaN(d.value)) // Filter out non-numeric values
-      .map((d) => ({
-        ...d,
-        value: parseFloat((d.value * factor).toFixed(decimals)), // Apply factor and round to decimals
-      }));
+  _isCachePersistent() {
+    return !!this.context.inputs.dataSource?.persistentCache;
+  }
+
+  _forTimeRange(timeRange: LoggingDataTimeRange) {
+    return new DataService(this.context, timeRange, this.client.signal);
   }
 
   async _getAllRawMetrics(
@@ -111,8 +589,8 @@ export class DataService {
     }
 
     const queryLimit = 5000;
-    const start = this._toIXONISOString(this.context.timeRange.from);
-    const end = this._toIXONISOString(this.context.timeRange.to);
+    const start = this._toIXONISOString(this.timeRange.from);
+    const end = this._toIXONISOString(this.timeRange.to);
     const url = this.context.getApiUrl('DataList');
     const body = {
       start,
@@ -131,11 +609,7 @@ export class DataService {
         ],
       })),
     };
-    const response = await fetch(url, {
-      headers: this.headers,
-      method: 'POST',
-      body: JSON.stringify(body),
-    }).then((res) => res.json());
+    const response = await this.client.post(url, body, isDataListResponse);
 
     metrics = [...metrics, ...response.data.points];
     offset += queryLimit;
@@ -154,7 +628,7 @@ export class DataService {
     const UnixTimestamp2000_01_01Seconds = 946684800;
     // Unix timestamps are in seconds; _toIXONISOString expects milliseconds.
     const start = this._toIXONISOString(UnixTimestamp2000_01_01Seconds * 1000);
-    const end = this._toIXONISOString(this.context.timeRange.from);
+    const end = this._toIXONISOString(this.timeRange.from);
     const url = this.context.getApiUrl('DataList');
     const body = {
       start,
@@ -173,11 +647,7 @@ export class DataService {
         ],
       })),
     };
-    const response = await fetch(url, {
-      headers: this.headers,
-      method: 'POST',
-      body: JSON.stringify(body),
-    }).then((res) => res.json());
+    const response = await this.client.post(url, body, isDataListResponse);
     const lastPointOfPreviousPeriod = response.data.points[0];
     if (!lastPointOfPreviousPeriod) {
       return null;
@@ -230,13 +700,13 @@ export class DataService {
   }
 
   async _getTotalCount(sourceId: string, tagSlug: string): Promise<number> {
-    const start = this._toIXONISOString(this.context.timeRange.from);
-    const end = this._toIXONISOString(this.context.timeRange.to);
+    const start = this._toIXONISOString(this.timeRange.from);
+    const end = this._toIXONISOString(this.timeRange.to);
     const url = this.context.getApiUrl('DataList');
 
     // Calculate step to span entire time range (in seconds) to get a single bucket with true count
     const timeRangeDurationSeconds = Math.ceil(
-      (this.context.timeRange.to - this.context.timeRange.from) / 1000,
+      (this.timeRange.to - this.timeRange.from) / 1000,
     );
 
     const body = {
@@ -259,26 +729,97 @@ export class DataService {
       ],
     };
 
-    const response = await fetch(url, {
-      headers: this.headers,
-      method: 'POST',
-      body: JSON.stringify(body),
-    }).then((res) => res.json());
+    const response = await this.client.post(url, body, isDataListResponse);
 
     // The count is returned in the first point's values
-    const count = response.data?.points?.[0]?.values?.[tagSlug] || 0;
+    const count = response.data.points[0]?.values[tagSlug] || 0;
     return count;
   }
 
+  /**
+   * Fetches the min, max, mean and count of every step with a single request.
+   * @returns The total number of samples in the buckets
+   */
+  async _getAggregatedBuckets(
+    sourceId: string,
+    tagSlug: string,
+    factor: number,
+    decimals: number,
+    onBuckets: BucketsCallback,
+    onProgress?: ProgressCallback,
+  ): Promise<number> {
+    onProgress?.('Fetching aggregated data...', 0, 0);
+    const start = this._toIXONISOString(this.timeRange.from);
+    const end = this._toIXONISOString(this.timeRange.to);
+    const url = this.context.getApiUrl('DataList');
+    const stepSeconds = Math.max(
+      1,
+      Math.ceil(
+        (this.timeRange.to - this.timeRange.from) /
+          1000 /
+          AGGREGATION_BUCKET_COUNT,
+      ),
+    );
+    const aggregations = ['min', 'max', 'mean', 'count'];
+
+    const body = {
+      start,
+      end,
+      timeZone: 'UTC',
+      source: { publicId: sourceId },
+      tags: [
+        {
+          slug: tagSlug,
+          preAggr: 'raw',
+          queries: aggregations.map((aggregation) => ({
+            ref: aggregation,
+            postAggr: aggregation,
+            step: stepSeconds,
+            limit: AGGREGATION_BUCKET_COUNT + 1,
+            order: 'asc',
+          })),
+        },
+      ],
+    };
+
+    const response = await this.client.post(url, body, isDataListResponse);
+    const points = response.data.points;
+
+    const round = (value: number) =>
+      parseFloat((value * factor).toFixed(decimals));
+    const buckets: AggregatedBucket[] = [];
+    for (const { time, values } of points) {
+      const count = values.count;
+      // Steps without samples come back empty
+      if (!(count > 0) || isNaN(values.mean)) {
+        continue;
+      }
+      // A negative factor swaps the minimum and maximum
+      const [min, max] = [round(values.min), round(values.max)].sort(
+        (a, b) => a - b,
+      );
+      buckets.push({
+        time: Date.parse(time),
+        count,
+        mean: values.mean * factor,
+        min,
+        max,
+      });
+    }
+
+    onBuckets(buckets, stepSeconds * 1000);
+    onProgress?.('Fetching aggregated data...', 1, 1);
+    return buckets.reduce((acc, bucket) => acc + bucket.count, 0);
+  }
+
   async _fetchRawDataPage(
     sourceId: string,
     tagSlug: string,
     offset: number,
     limit: number,
-    retries: number = 3,
   ): Promise<Metric[]> {
-    const start = this._toIXONISOString(this.context.timeRange.from);
-    const end = this._toIXONISOString(this.context.timeRange.to);
+    const start = this._toIXONISOString(this.timeRange.from);
+    const end = this._toIXONISOString(this.timeRange.to);
     const url = this.context.getApiUrl('DataList');
     const body = {
       start,
@@ -301,68 +842,43 @@ export class DataService {
       ],
     };
 
-    const response = await fetch(url, {
-      headers: this.headers,
-      method: 'POST',
-      body: JSON.stringify(body),
-    });
-
-    // Handle rate limit errors with exponential backoff
-    if (response.status === 429 && retries > 0) {
-      const backoffMs = (4 - retries) * 1000; // 1s, 2s, 3s
-      await new Promise((resolve) => setTimeout(resolve, backoffMs));
-      return this._fetchRawDataPage(
-        sourceId,
-        tagSlug,
-        offset,
-        limit,
-        retries - 1,
-      );
-    }
-
-    const data = await response.json();
-    return data.data?.points || [];
+    // Rate limit errors are retried by the client
+    const response = await this.client.post(url, body, isDataListResponse);
+    return response.data.points;
   }
 
-  async _getAllRawMetricsParallel(
+  /**
+   * Fetches all pages with a concurrency limit and hands them over in chronological order.
+   * Pages that complete before an earlier page are held back until that page arrives.
+   */
+  async _streamRawMetricsParallel(
     sourceId: string,
     tagSlugs: string[],
+    onMetrics: (metrics: Metric[]) => void,
     onProgress?: ProgressCallback,
-  ): Promise<Metric[]> {
+    knownTotalCount?: number,
+  ): Promise<void> {
     const tagSlug = tagSlugs[0];
     const queryLimit = 5000;
 
-    // Step 1: Get total count (single API call)
-    onProgress?.('Counting data points...', 0, 0);
-    const totalCount = await this._getTotalCount(sourceId, tagSlug);
+    // Step 1: Get total count (single API call), unless the caller already did
+    let totalCount = knownTotalCount;
+    if (totalCount === undefined) {
+      onProgress?.('Counting data points...', 0, 0);
+      totalCount = await this._getTotalCount(sourceId, tagSlug);
+    }
 
     // Early return if no data
     if (totalCount === 0) {
-      const lastPoint = await this._getLastPointOfPreviousPeriod(
-        sourceId,
-        tagSlugs,
-      );
-      return lastPoint ? [lastPoint] : [];
+      return;
     }
 
     // Step 2: If small dataset, fetch in one request
     if (totalCount <= queryLimit) {
       onProgress?.('Fetching data...', 0, 1);
-      const data = await this._fetchRawDataPage(
-        sourceId,
-        tagSlug,
-        0,
-        queryLimit,
-      );
+      onMetrics(await this._fetchRawDataPage(sourceId, tagSlug, 0, queryLimit));
       onProgress?.('Fetching data...', 1, 1);
-      const lastPoint = await this._getLastPointOfPreviousPeriod(
-        sourceId,
-        tagSlugs,
-      );
-      if (lastPoint) {
-        data.push(lastPoint);
-      }
-      return data;
+      return;
     }
 
     // Step 3: Calculate pages and fetch with concurrency limit
@@ -373,6 +889,10 @@ export class DataService {
     let completedPages = 0;
     onProgress?.('Fetching data...', 0, pagesNeeded);
 
+    // Pages are requested in ascending order, so emitting them in page order keeps the time order
+    const completed = new Map<number, Metric[]>();
+    let nextPage = 0;
+
     // Create task functions (not promises) for the concurrency limiter
     const fetchTasks = Array.from(
       { length: pagesNeeded },
@@ -383,36 +903,18 @@ export class DataService {
           i * queryLimit,
           queryLimit,
         );
+        completed.set(i, result);
+        while (completed.has(nextPage)) {
+          onMetrics(completed.get(nextPage)!);
+          completed.delete(nextPage);
+          nextPage++;
+        }
         completedPages++;
         onProgress?.('Fetching data...', completedPages, pagesNeeded);
-        return result;
       },
     );
 
-    const results = await this._fetchWithConcurrencyLimit(
-      fetchTasks,
-      maxConcurrent,
-    );
-
-    // Merge all results (use concat instead of flat for better compatibility)
-    const allMetrics: Metric[] = [];
-    for (const pageResults of results) {
-      allMetrics.push(...pageResults);
-    }
-
-    // Step 4: Add lastPointOfPreviousPeriod
-    const lastPoint = await this._getLastPointOfPreviousPeriod(
-      sourceId,
-      tagSlugs,
-    );
-    if (lastPoint) {
-      allMetrics.push(lastPoint);
-    }
-
-    // Sort by time to ensure chronological order
-    return allMetrics.sort(
-      (a: Metric, b: Metric) => Date.parse(a.time) - Date.parse(b.time),
-    );
+    await this._fetchWithConcurrencyLimit(fetchTasks, maxConcurrent);
   }
 
   private async _getAgent() {
@@ -442,10 +944,10 @@ export class DataService {
       }) +
       '?fields=*,publicId,agent.publicId' +
       `&filters=eq(slug,"${slug}")`;
-    const response = await fetch(url, {
-      headers: this.headers,
-      method: 'GET',
-    }).then((res) => res.json());
+    const response = await this.client.get(
+      url,
+      isListResponse(hasStrings<DataSource>('publicId')),
+    );
     return response.data;
   }
 
@@ -457,10 +959,10 @@ export class DataService {
       }) +
       '?fields=*,source.publicId,agent.publicId' +
       filters;
-    const response = await fetch(url, {
-      headers: this.headers,
-      method: 'GET',
-    }).then((res) => res.json());
+    const response = await this.client.get(
+      url,
+      isListResponse(hasStrings<Tag>('slug', 'source.publicId')),
+    );
     return response.data;
   }
 
@@ -472,3 +974,88 @@ export class DataService {
           .join(')&filters=in(')})`;
   }
 }
+
+/**
+ * Last time of which a request up to `to` returns all points. Requests are made in whole
+ * seconds, so that is just before the last whole second.
+ */
+function getRequestedEnd(to: number) {
+  return Math.floor(to / 1000) * 1000 - 1;
+}
+
+/**
+ * Collects fetched raw points for the cache, until there are too many to cache.
+ */
+class RawPointCollector {
+  times: number[] | Float64Array = [];
+  values: number[] | Float64Array = [];
+  overflow = false;
+
+  add(points: RawPoint[]) {
+    if (this.overflow) {
+      return;
+    }
+    if (this.times.length + points.length > MAX_CACHED_POINTS) {
+      this.overflow = true;
+      this.times = [];
+      this.values = [];
+      return;
+    }
+    for (const { time, value } of points) {
+      (this.times as number[]).push(time);
+      (this.values as number[]).push(value);
+    }
+  }
+
+  /**
+   * Joins the fetched head, the cached range and the fetched tail into one collector.
+   */
+  static merge(
+    head: RawPointCollector,
+    cached: CachedRange,
+    tail: RawPointCollector,
+  ) {
+    const merged = new RawPointCollector();
+    const parts = [head, cached, tail];
+    const length = parts.reduce((acc, part) => acc + part.times.length, 0);
+    merged.overflow =
+      head.overflow || tail.overflow || length > MAX_CACHED_POINTS;
+    if (merged.overflow) {
+      return merged;
+    }
+    merged.times = new Float64Array(length);
+    merged.values = new Float64Array(length);
+    let offset = 0;
+    for (const part of parts) {
+      merged.times.set(part.times, offset);
+      merged.values.set(part.values, offset);
+      offset += part.times.length;
+    }
+    return merged;
+  }
+
+  store(
+    key: string,
+    range: Omit<CachedRange, 'times' | 'values'>,
+    persistent: boolean,
+  ) {
+    // A range that only holds recent points has nothing complete to keep
+    if (this.overflow || range.to < range.from) {
+      return;
+    }
+    // Leave out points after the complete part of the range, they are fetched again next time
+    let length = this.times.length;
+    while (length > 0 && this.times[length - 1] > range.to) {
+      length--;
+    }
+    metricCache.set(
+      key,
+      {
+        ...range,
+        times: Float64Array.from(this.times.slice(0, length)),
+        values: Float64Array.from(this.values.slice(0, length)),
+      },
+      persistent,
+    );
+  }
+}
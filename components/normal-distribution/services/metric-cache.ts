@@ -0,0 +1,243 @@
+/**
+ * Map that drops its least recently used entries once their total size exceeds `maxSize`.
+ */
+export class LruCache<V> {
+  private entries = new Map<string, V>();
+  private size = 0;
+
+  constructor(
+    private maxSize: number,
+    private sizeOf: (value: V) => number = () => 1,
+  ) {}
+
+  get(key: string): V | undefined {
+    const value = this.entries.get(key);
+    if (value !== undefined) {
+      // Move to the back, the front holds the least recently used entry
+      this.entries.delete(key);
+      this.entries.set(key, value);
+    }
+    return value;
+  }
+
+  set(key: string, value: V) {
+    this.delete(key);
+    const size = this.sizeOf(value);
+    if (size > this.maxSize) {
+      return;
+    }
+    this.entries.set(key, value);
+    this.size += size;
+    while (this.size > this.maxSize) {
+      const [oldestKey] = this.entries.keys();
+      this.delete(oldestKey);
+    }
+  }
+
+  delete(key: string) {
+    const value = this.entries.get(key);
+    if (value !== undefined) {
+      this.entries.delete(key);
+      this.size -= this.sizeOf(value);
+    }
+  }
+}
+
+/**
+ * Raw points of a tag that are known to be complete from `from` to `to`.
+ */
+export type CachedRange = {
+  from: number;
+  to: number;
+  // Value of the last point before `from`, which still holds at the start of the range
+  previous: number | null;
+  // When the oldest points of the range were fetched
+  fetchedAt: number;
+  times: Float64Array;
+  values: Float64Array;
+};
+
+// About 32 MB of points in memory, shared by all tags
+export const MAX_CACHED_POINTS = 2000000;
+
+// Points can still be uploaded long after they were logged, e.g. by a device that was offline,
+// so cached ranges are fetched again once they are this old
+const MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
+const DATABASE_NAME = 'normal-distribution-cache';
+const STORE_NAME = 'ranges';
+
+/**
+ * Cache of raw points per source and tag. Recently used ranges are kept in memory and,
+ * when persistence is enabled, in IndexedDB so they survive a page reload.
+ */
+class MetricCache {
+  private memory = new LruCache<CachedRange>(
+    MAX_CACHED_POINTS,
+    (range) => range.times.length + 1,
+  );
+  private database: Promise<IDBDatabase | null> | null = null;
+
+  async get(key: string, persistent = false): Promise<CachedRange | null> {
+    let range = this.memory.get(key);
+    if (range && isExpired(range)) {
+      this.memory.delete(key);
+      range = undefined;
+    }
+    if (range || !persistent) {
+      return range ?? null;
+    }
+    const stored = await this._read(key);
+    if (!stored || isExpired(stored)) {
+      return null;
+    }
+    this.memory.set(key, stored);
+    return stored;
+  }
+
+  set(key: string, range: CachedRange, persistent = false) {
+    this.memory.set(key, range);
+    if (persistent && range.times.length <= MAX_CACHED_POINTS) {
+      this._write(key, range);
+    }
+  }
+
+  _open() {
+    if (!this.database) {
+      this.database = new Promise((resolve) => {
+        if (typeof indexedDB === 'undefined') {
+          resolve(null);
+          return;
+        }
+        const request = indexedDB.open(DATABASE_NAME, 1);
+        request.onupgradeneeded = () =>
+          request.result.createObjectStore(STORE_NAME);
+        request.onsuccess = () => resolve(request.result);
+        // The cache is optional, so a blocked or failing database just disables it
+        request.onerror = () => resolve(null);
+      });
+    }
+    return this.database;
+  }
+
+  async _read(key: string): Promise<CachedRange | null> {
+    const database = await this._open();
+    if (!database) {
+      return null;
+    }
+    return new Promise((resolve) => {
+      try {
+        const request = database
+          .transaction(STORE_NAME, 'readonly')
+          .objectStore(STORE_NAME)
+          .get(key);
+        request.onsuccess = () =>
+          resolve(isCachedRange(request.result) ? request.result : null);
+        request.onerror = () => resolve(null);
+      } catch {
+        resolve(null);
+      }
+    });
+  }
+
+  async _write(key: string, range: CachedRange) {
+    const database = await this._open();
+    try {
+      database
+        ?.transaction(STORE_NAME, 'readwrite')
+        .objectStore(STORE_NAME)
+        .put(range, key);
+    } catch {
+      // Quota exceeded or the database was closed, the memory cache still has the range
+    }
+  }
+}
+
+function isCachedRange(value: unknown): value is CachedRange {
+  const range = value as CachedRange;
+  return (
+    typeof range === 'object' &&
+    range !== null &&
+    typeof range.from === 'number' &&
+    typeof range.to === 'number' &&
+    typeof range.fetchedAt === 'number' &&
+    range.times instanceof Float64Array &&
+    range.values instanceof Float64Array
+  );
+}
+
+function isExpired(range: CachedRange) {
+  return Date.now() - range.fetchedAt > MAX_AGE_MS;
+}
+
+export const metricCache = new MetricCache();
+
+// Index of the first point at or after `time`, or after it when `inclusive` is false
+function search(times: Float64Array, time: number, inclusive = true) {
+  let low = 0;
+  let high = times.length;
+  while (low < high) {
+    const middle = (low + high) >> 1;
+    if (inclusive ? times[middle] < time : times[middle] <= time) {
+      low = middle + 1;
+    } else {
+      high = middle;
+    }
+  }
+  return low;
+}
+
+/**
+ * The cached points from `from` up to and including `to`.
+ */
+export function getCachedPoints(range: CachedRange, from: number, to: number) {
+  const points: { time: number; value: number }[] = [];
+  const end = search(range.times, to, false);
+  for (let i = search(range.times, from); i < end; i++) {
+    points.push({ time: range.times[i], value: range.values[i] });
+  }
+  return points;
+}
+
+/**
+ * Number of cached points from `from` up to and including `to`.
+ */
+export function countCachedPoints(
+  range: CachedRange,
+  from: number,
+  to: number,
+) {
+  return Math.max(
+    0,
+    search(range.times, to, false) - search(range.times, from),
+  );
+}
+
+/**
+ * The part of the range from `from` on, sharing the points of the original range.
+ */
+export function sliceCachedRange(
+  range: CachedRange,
+  from: number,
+): CachedRange {
+  if (from <= range.from) {
+    return range;
+  }
+  const start = search(range.times, from);
+  return {
+    from,
+    to: range.to,
+    previous: getPreviousValue(range, from),
+    fetchedAt: range.fetchedAt,
+    times: range.times.subarray(start),
+    values: range.values.subarray(start),
+  };
+}
+
+/**
+ * Value of the last point before `time`, which still holds at that time.
+ */
+export function getPreviousValue(range: CachedRange, time: number) {
+  const index = search(range.times, time) - 1;
+  return index >= 0 ? range.values[index] : range.previous;
+}
@@ -0,0 +1,120 @@
+import { describe, expect, it } from 'vitest';
+import {
+  describeAlertRule,
+  evaluateAlertRules,
+  type AlertStatistics,
+} from './alert-rules';
+
+const STATISTICS: AlertStatistics = {
+  mean: 10.2,
+  standardDeviation: 0.5,
+  cp: 1.5,
+  cpk: 1.2,
+  ppk: 1.1,
+  beyondBounds: 4,
+};
+
+describe('evaluateAlertRules', () => {
+  it('breaches a rule with a minimum below it', () => {
+    const { state, violations } = evaluateAlertRules(
+      [{ metric: 'cpk', min: 1.33 }],
+      STATISTICS,
+    );
+    expect(state).toBe('alarm');
+    expect(violations).toHaveLength(1);
+    expect(violations[0].value).toBe(1.2);
+    expect(violations[0].message).toBe('Cpk ≥ 1.33: 1.20');
+  });
+
+  it('breaches a rule with a maximum above it', () => {
+    const { state, violations } = evaluateAlertRules(
+      [
+        { metric: 'standardDeviation', max: 0.4 },
+        { metric: 'beyondBounds', max: 5 },
+      ],
+      STATISTICS,
+      1,
+    );
+    expect(state).toBe('alarm');
+    expect(violations.map((violation) => violation.message)).toEqual([
+      'σ ≤ 0.4: 0.5',
+    ]);
+  });
+
+  it('breaches a rule with both only outside the range', () => {
+    const inside = evaluateAlertRules(
+      [{ metric: 'mean', min: 9.5, max: 10.5 }],
+      STATISTICS,
+    );
+    expect(inside.state).toBe('ok');
+    expect(inside.violations).toEqual([]);
+
+    const outside = evaluateAlertRules(
+      [{ metric: 'mean', min: 9.5, max: 10.5 }],
+      { ...STATISTICS, mean: 9.4 },
+    );
+    expect(outside.state).toBe('alarm');
+    expect(outside.violations[0].message).toBe('Mean in [9.50, 10.50]: 9.40');
+  });
+
+  it('keeps a statistic on a limit within the rule', () => {
+    expect(
+      evaluateAlertRules(
+        [
+          { metric: 'cpk', min: 1.2 },
+          { metric: 'beyondBounds', max: 4 },
+        ],
+        STATISTICS,
+      ).state,
+    ).toBe('ok');
+  });
+
+  it('clears the alarm as soon as the statistic is back within the limits', () => {
+    // Every draw is evaluated on its own, without holding on to an earlier alarm
+    const rules = [{ metric: 'cpk' as const, min: 1.33 }];
+    expect(evaluateAlertRules(rules, STATISTICS).state).toBe('alarm');
+    expect(evaluateAlertRules(rules, { ...STATISTICS, cpk: 1.34 }).state).toBe(
+      'ok',
+    );
+  });
+
+  it('reports no state without rules to evaluate', () => {
+    expect(evaluateAlertRules([], STATISTICS).state).toBe('none');
+    // A rule without a minimum or maximum is not evaluated
+    expect(
+      evaluateAlertRules(
+        [{ metric: 'mean', min: null, max: undefined }],
+        STATISTICS,
+      ),
+    ).toEqual({ state: 'none', violations: [], unavailable: [] });
+  });
+
+  it('leaves out rules on a statistic without data', () => {
+    const rule = { metric: 'mean' as const, max: 10 };
+    expect(evaluateAlertRules([rule], { ...STATISTICS, mean: NaN })).toEqual({
+      state: 'ok',
+      violations: [],
+      unavailable: [rule],
+    });
+  });
+
+  it('leaves out rules on a statistic that is not available', () => {
+    // Cpk is only known with specification limits
+    const rule = { metric: 'cpk' as const, min: 1.33 };
+    const { state, violations, unavailable } = evaluateAlertRules(
+      [rule, { metric: 'mean', max: 10 }],
+      { ...STATISTICS, cp: null, cpk: null, ppk: null },
+    );
+    expect(state).toBe('alarm');
+    expect(violations).toHaveLength(1);
+    expect(unavailable).toEqual([rule]);
+  });
+});
+
+describe('describeAlertRule', () => {
+  it('uses the label of the rule instead', () => {
+    expect(
+      describeAlertRule({ metric: 'cpk', min: 1.33, label: 'Capable' }),
+    ).toBe('Capable');
+  });
+});
@@ -0,0 +1,135 @@
+import { formatValue } from './format';
+
+export type AlertMetric =
+  'mean' | 'standardDeviation' | 'cp' | 'cpk' | 'ppk' | 'beyondBounds';
+
+/**
+ * A rule is breached when its statistic lies below `min` or above `max`. "Cpk below 1.33" is
+ * a rule on cpk with a `min` of 1.33, "mean outside [a, b]" one on the mean with both.
+ */
+export type AlertRule = {
+  metric: AlertMetric;
+  min?: number | null;
+  max?: number | null;
+  // Replaces the generated description in the list of breached rules
+  label?: string | null;
+};
+
+// The statistics of a drawn chart that the rules are evaluated on
+export type AlertStatistics = {
+  mean: number;
+  standardDeviation: number;
+  // Null without specification limits
+  cp: number | null;
+  cpk: number | null;
+  ppk: number | null;
+  // Percentage of the values outside the lower and upper bound
+  beyondBounds: number;
+};
+
+export type AlertViolation = {
+  rule: AlertRule;
+  value: number;
+  message: string;
+};
+
+export type AlertEvaluation = {
+  // 'none' when there are no rules to evaluate
+  state: 'none' | 'ok' | 'alarm';
+  violations: AlertViolation[];
+  // Rules whose statistic is not available, like a Cpk rule without specification limits
+  unavailable: AlertRule[];
+};
+
+const METRIC_LABELS: { [metric in AlertMetric]: string } = {
+  mean: 'Mean',
+  standardDeviation: 'σ',
+  cp: 'Cp',
+  cpk: 'Cpk',
+  ppk: 'Ppk',
+  beyondBounds: 'Beyond bounds',
+};
+
+// Capability indices and percentages are shown with a fixed number of decimals
+const FIXED_DECIMALS: { [metric in AlertMetric]?: number } = {
+  cp: 2,
+  cpk: 2,
+  ppk: 2,
+  beyondBounds: 1,
+};
+
+/**
+ * Checks the statistics against every rule. Rules without a minimum or maximum are ignored.
+ * @param decimals Decimals of the metric, used to show the mean and standard deviation
+ */
+export function evaluateAlertRules(
+  rules: AlertRule[],
+  statistics: AlertStatistics,
+  decimals = 2,
+): AlertEvaluation {
+  const activeRules = rules.filter(
+    (rule) => isFiniteNumber(rule.min) || isFiniteNumber(rule.max),
+  );
+  const violations: AlertViolation[] = [];
+  const unavailable: AlertRule[] = [];
+
+  for (const rule of activeRules) {
+    const value = statistics[rule.metric];
+    if (value === null || !Number.isFinite(value)) {
+      unavailable.push(rule);
+      continue;
+    }
+    const isBelow = isFiniteNumber(rule.min) && value < rule.min;
+    const isAbove = isFiniteNumber(rule.max) && value > rule.max;
+    if (isBelow || isAbove) {
+      violations.push({
+        rule,
+        value,
+        message: describeViolation(rule, value, decimals),
+      });
+    }
+  }
+
+  return {
+    state: !activeRules.length ? 'none' : violations.length ? 'alarm' : 'ok',
+    violations,
+    unavailable,
+  };
+}
+
+/**
+ * Describes a rule, like "Cpk ≥ 1.33" or "Mean in [9.5, 10.5]".
+ */
+export function describeAlertRule(rule: AlertRule, decimals = 2) {
+  if (rule.label) {
+    return rule.label;
+  }
+  const name = METRIC_LABELS[rule.metric];
+  const format = (value: number) =>
+    formatStatistic(rule.metric, value, decimals);
+  if (isFiniteNumber(rule.min) && isFiniteNumber(rule.max)) {
+    return `${name} in [${format(rule.min)}, ${format(rule.max)}]`;
+  }
+  return isFiniteNumber(rule.min)
+    ? `${name} ≥ ${format(rule.min)}`
+    : `${name} ≤ ${format(rule.max ?? NaN)}`;
+}
+
+function describeViolation(rule: AlertRule, value: number, decimals: number) {
+  return `${describeAlertRule(rule, decimals)}: ${formatStatistic(
+    rule.metric,
+    value,
+    decimals,
+  )}`;
+}
+
+function formatStatistic(metric: AlertMetric, value: number, decimals: number) {
+  const fixed = FIXED_DECIMALS[metric];
+  const text =
+    fixed === undefined ? formatValue(value, decimals) : value.toFixed(fixed);
+  return metric === 'beyondBounds' ? `${text}%` : text;
+}
+
+function isFiniteNumber(value: number | null | undefined): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
@@ -0,0 +1,155 @@
+import { describe, expect, it } from 'vitest';
+import {
+  analyzeAccumulator,
+  createDistributionAccumulator,
+  fitSample,
+  getAccumulatorFences,
+  type AnalysisOptions,
+} from './analysis';
+
+// Mean 5 and population standard deviation 2, with an outlier at the end
+const POINTS = [2, 4, 4, 4, 5, 5, 7, 9, 40].map((value, i) => ({
+  time: i * 1000,
+  value,
+}));
+
+// Folds the points in twice like the chart does, leaving out the statistical outliers
+function analyze(
+  points: { time: number; value: number }[],
+  options: AnalysisOptions,
+) {
+  const accumulate = (fences: ReturnType<typeof getAccumulatorFences>) => {
+    const accumulator = createDistributionAccumulator(options, fences);
+    accumulator.add(points);
+    accumulator.finish();
+    return accumulator;
+  };
+  const fences = getAccumulatorFences(accumulate(null), options.filters);
+  return analyzeAccumulator(accumulate(fences), options, fences);
+}
+
+describe('analyzeAccumulator', () => {
+  it('analyses the values the filters kept', () => {
+    const analysis = analyze(POINTS, {
+      resolution: 1,
+      filters: { method: 'iqr' },
+    });
+
+    // Tukey's fences around the quartiles 4 and 7 of all values
+    expect(analysis.filters.fences).toEqual({ lower: -0.5, upper: 11.5 });
+    expect(analysis.filters.excluded).toEqual({ iqr: 1 });
+    expect(analysis.n).toBe(8);
+    expect(analysis.total).toBe(8);
+    expect(analysis.mean).toBe(5);
+    expect(analysis.standardDeviation).toBeCloseTo(2, 12);
+    expect(analysis.min).toBe(2);
+    expect(analysis.max).toBe(9);
+    expect(analysis.quartiles).toEqual({ q1: 4, median: 4.5, q3: 5.5 });
+    expect(analysis.sample.values).toEqual([2, 4, 4, 4, 5, 5, 7, 9]);
+    expect(analysis.isSampled).toBe(false);
+    expect(analysis.aggregated).toBe(false);
+
+    expect(analysis.bins.reduce((acc, bin) => acc + bin.count, 0)).toBe(8);
+    expect(analysis.bins.reduce((acc, bin) => acc + bin.share, 0)).toBeCloseTo(
+      1,
+      12,
+    );
+
+    expect(analysis.fit.model).toBe('normal');
+    expect(analysis.fitName).toBe('Normal distribution');
+    // 5 ± 1.959964 · 2
+    expect(analysis.bounds.lower).toBeCloseTo(1.080072, 5);
+    expect(analysis.bounds.upper).toBeCloseTo(8.919928, 5);
+    expect(analysis.beyondBounds).toBe(12.5);
+    expect(analysis.intervals.mean[0]).toBeCloseTo(3.212512, 5);
+    expect(analysis.intervals.mean[1]).toBeCloseTo(6.787488, 5);
+    expect(analysis.capability).toBeNull();
+  });
+
+  it('finds the bounds of the other methods', () => {
+    const options: AnalysisOptions = {
+      resolution: 1,
+      filters: { method: 'iqr' },
+    };
+
+    const percentile = analyze(POINTS, {
+      ...options,
+      boundMode: 'percentile',
+    }).bounds;
+    expect(percentile.lower).toBeCloseTo(2.35, 12);
+    expect(percentile.upper).toBeCloseTo(8.65, 12);
+
+    const tolerance = analyze(POINTS, {
+      ...options,
+      boundMode: 'tolerance',
+    }).bounds;
+    // 5 ± k · s with Howe's k = 3.736019 for 8 values and s = 2.138090
+    expect(tolerance.lower).toBeCloseTo(-2.98794, 4);
+    expect(tolerance.upper).toBeCloseTo(12.98794, 4);
+  });
+
+  it('weighs the values by the time they held', () => {
+    const analysis = analyze(
+      [
+        { time: 0, value: 1 },
+        { time: 1000, value: 2 },
+        { time: 3000, value: 3 },
+      ],
+      {
+        resolution: 1,
+        timeWeighting: { unit: { label: 's', milliseconds: 1000 }, end: 4000 },
+      },
+    );
+    expect(analysis.n).toBe(3);
+    expect(analysis.total).toBe(4);
+    expect(analysis.mean).toBe(2);
+    expect(analysis.standardDeviation).toBeCloseTo(Math.SQRT1_2, 12);
+    expect(analysis.sample.weights).toEqual([1, 2, 1]);
+    expect(analysis.quartiles.median).toBe(2);
+  });
+
+  it('finds the capability against the specification limits', () => {
+    const analysis = analyze(POINTS.slice(0, 8), {
+      resolution: 1,
+      specificationLimits: { lsl: 0, usl: 8 },
+    });
+    expect(analysis.capability?.observedPpm).toBe(125000);
+    // (USL − LSL) / 6s with the sample standard deviation s
+    expect(analysis.capability?.pp).toBeCloseTo(
+      8 / (12 * Math.sqrt(8 / 7)),
+      12,
+    );
+  });
+
+  it('fails when the filters leave nothing', () => {
+    expect(() =>
+      analyze(POINTS, { resolution: 1, filters: { min: 100 } }),
+    ).toThrow('No data left after filtering');
+  });
+});
+
+describe('fitSample', () => {
+  it('fits the model and draws it over the bins', () => {
+    const sampleFit = fitSample(
+      { values: [2, 4, 4, 4, 5, 5, 7, 9] },
+      { resolution: 1 },
+      1,
+      true,
+    );
+    expect(sampleFit?.fit.model).toBe('normal');
+    expect(sampleFit?.curve).toHaveLength(200);
+    expect(sampleFit?.bounds?.lower).toBeCloseTo(1.080072, 5);
+    expect(sampleFit?.bounds?.upper).toBeCloseTo(8.919928, 5);
+  });
+
+  it('leaves out the bounds unless asked for', () => {
+    expect(
+      fitSample({ values: [2, 4, 4, 4, 5, 5, 7, 9] }, { resolution: 1 }, 1)
+        ?.bounds,
+    ).toBeNull();
+  });
+
+  it('returns null when the model cannot be fitted', () => {
+    expect(fitSample({ values: [3, 3] }, { resolution: 1 }, 1)).toBeNull();
+  });
+});
@@ -0,0 +1,508 @@
+import {
+  assessNormality,
+  bootstrapMeanInterval,
+  calculateCapabilityFromSummary,
+  calculateStatistics,
+  calculateWeightedStatistics,
+  generateNormalDistributionData,
+  getConfidenceInterval,
+  getZScoreForConfidence,
+  meanConfidenceInterval,
+  standardDeviationConfidenceInterval,
+  toleranceFactor,
+  toleranceInterval,
+  weightedQuantileSorted,
+  type CapabilityIndices,
+  type NormalityAssessment,
+  type SpecificationLimits,
+} from './statistics';
+import { countIntoBins, type BinningOptions } from './binning';
+import {
+  fitDistribution,
+  generateDensityCurve,
+  summarizeFit,
+  tryFitDistribution,
+  type FitSummary,
+  type FittedDistribution,
+  type ModelSelection,
+  type SelectionCriterion,
+} from './distributions';
+import { formatPercentile } from './format';
+import {
+  createValueFilter,
+  getOutlierFences,
+  type ExclusionCounts,
+  type Fences,
+  type OutlierFilterOptions,
+} from './outliers';
+import { DistributionAccumulator, type SampledPoint } from './streaming';
+import type { DurationUnit } from './time-weighting';
+import type { Gate } from './gate';
+
+// How the lower and upper bound are found: as the coverage of the fitted model, from the
+// percentiles of the data, as a confidence interval of the mean (bootstrap or t-based), or as
+// a normal tolerance interval
+export type BoundMode =
+  'parametric' | 'percentile' | 'bootstrap' | 'mean-ci' | 'tolerance';
+
+export type Bounds = {
+  lower: number;
+  upper: number;
+  // Names of the markers, stating the method like "P2.5" or "μ − 1.96σ"
+  lowerLabel: string;
+  upperLabel: string;
+  method: string;
+};
+
+// Confidence intervals of the estimates at the confidence level, assuming normal data
+export type StatisticalIntervals = {
+  n: number;
+  mean: [number, number];
+  standardDeviation: [number, number];
+};
+
+export type Quartiles = {
+  q1: number;
+  median: number;
+  q3: number;
+};
+
+// Values sorted in ascending order, with the duration each value held in time-weighted mode
+export type Sample = {
+  values: number[];
+  weights?: number[];
+};
+
+export type AnalysisOptions = {
+  // Smallest step between values, e.g. 0.01 for 2 decimals
+  resolution: number;
+  confidenceLevelPercentage?: number;
+  boundMode?: BoundMode;
+  // Share of the population a tolerance interval contains
+  coveragePercentage?: number;
+  filters?: OutlierFilterOptions;
+  // Keeps a sample of the excluded values and counts them into the bins
+  keepExcluded?: boolean;
+  gate?: Gate | null;
+  specificationLimits?: SpecificationLimits;
+  binning?: BinningOptions;
+  distribution?: ModelSelection;
+  selectionCriterion?: SelectionCriterion;
+  // Weighs every value by how long it held, the last one until `end`
+  timeWeighting?: { unit: DurationUnit; end: number } | null;
+  // Number of points kept for the analyses that need the individual values
+  sampleSize?: number;
+  // Number of the most recent points kept in order, e.g. for a control chart
+  recentSize?: number;
+  // Values of other series that have to fit in the same bins
+  pooledValues?: number[];
+};
+
+export type AnalysisBin = {
+  start: number;
+  end: number;
+  // Number of samples, or the duration in time-weighted mode
+  count: number;
+  share: number;
+};
+
+/**
+ * Everything that is known about the distribution of a metric, independent of how it is drawn.
+ */
+export type DistributionAnalysis = {
+  // Number of samples that passed the filters
+  n: number;
+  // The number of samples, or the total duration in time-weighted mode
+  total: number;
+  mean: number;
+  standardDeviation: number;
+  min: number;
+  max: number;
+  quartiles: Quartiles;
+  bins: AnalysisBin[];
+  binWidth: number;
+  // The excluded values counted into the same bins, when they are kept
+  excludedBins: number[] | null;
+  fit: FitSummary;
+  fitName: string;
+  // Points of the fitted density and of the normal density, as [value, frequency] on the scale of the bins
+  curve: number[][];
+  normalCurve: number[][];
+  bounds: Bounds;
+  // Percentage of the values below the lower or above the upper bound
+  beyondBounds: number;
+  intervals: StatisticalIntervals;
+  capability: CapabilityIndices | null;
+  normality: NormalityAssessment | null;
+  filters: {
+    options: OutlierFilterOptions;
+    // Bounds of the statistical outlier method, null when it was not applied
+    fences: Fences | null;
+    // Number of samples each filter left out
+    excluded: ExclusionCounts;
+  };
+  // The kept points in chronological order, a uniform sample of them for large ranges
+  points: SampledPoint[];
+  // The values of `points` sorted, with their weights in time-weighted or aggregated mode
+  sample: Sample;
+  isSampled: boolean;
+  // Set when the distribution was built from server-side aggregated buckets
+  aggregated: boolean;
+};
+
+// Resamples of the bootstrap confidence interval of the mean
+const BOOTSTRAP_RESAMPLES = 1000;
+
+/**
+ * Creates the accumulator that points are folded into before they are analysed.
+ * @param fences Bounds of the statistical outlier method, found in an earlier pass
+ */
+export function createDistributionAccumulator(
+  {
+    resolution,
+    filters = {},
+    keepExcluded = false,
+    gate = null,
+    specificationLimits = {},
+    timeWeighting = null,
+    sampleSize,
+    recentSize,
+  }: AnalysisOptions,
+  fences: Fences | null = null,
+) {
+  return new DistributionAccumulator({
+    resolution,
+    filter: createValueFilter(filters, fences),
+    keepExcluded,
+    gate,
+    specificationLimits,
+    timeWeighting,
+    sampleSize,
+    recentSize,
+  });
+}
+
+/**
+ * Bounds of the statistical outlier method, found on the values the other filters kept.
+ */
+export function getAccumulatorFences(
+  accumulator: DistributionAccumulator,
+  filters: OutlierFilterOptions = {},
+) {
+  return getOutlierFences(
+    accumulator
+      .getSample()
+      .map((point) => point.value)
+      .sort((a, b) => a - b),
+    filters,
+  );
+}
+
+/**
+ * Analyses the points folded into the accumulator, which was created with the same options.
+ */
+export function analyzeAccumulator(
+  accumulator: DistributionAccumulator,
+  {
+    resolution,
+    confidenceLevelPercentage = 95,
+    boundMode = 'parametric',
+    coveragePercentage = 95,
+    filters = {},
+    keepExcluded = false,
+    specificationLimits = {},
+    binning = {},
+    distribution = 'normal',
+    selectionCriterion = 'aic',
+    timeWeighting = null,
+    pooledValues = [],
+  }: AnalysisOptions,
+  fences: Fences | null = null,
+): DistributionAnalysis {
+  if (!accumulator.count) {
+    throw new Error('No data left after filtering');
+  }
+  const { mean, standardDeviation } = accumulator;
+
+  // All points in chronological order, or a uniform sample of them for very large ranges
+  const points = accumulator.getSample();
+  const byValue = [...points].sort((a, b) => a.value - b.value);
+  const values = byValue.map((point) => point.value);
+  const weights =
+    timeWeighting || accumulator.aggregated
+      ? byValue.map((point) => point.weight ?? 1)
+      : undefined;
+  const total = accumulator.total;
+
+  const excluded = keepExcluded ? accumulator.getExcluded() : null;
+  const { bins, binWidth } = accumulator.createHistogram(
+    { ...binning, resolution },
+    [...pooledValues, ...(excluded?.values ?? [])],
+  );
+
+  const normalCurve = generateNormalDistributionData(
+    mean,
+    standardDeviation,
+    total,
+    binWidth,
+  );
+  if (!normalCurve.length) {
+    throw new Error(`Not enough data available, mean = ${mean}`);
+  }
+
+  const fit = fitDistribution(
+    values,
+    distribution,
+    selectionCriterion,
+    weights,
+  );
+  const curve =
+    fit.model === 'normal'
+      ? normalCurve
+      : generateDensityCurve(fit, total, binWidth);
+
+  const bounds = getBounds(
+    fit,
+    { values, weights },
+    { mean, standardDeviation, n: accumulator.count },
+    confidenceLevelPercentage,
+    boundMode,
+    coveragePercentage,
+  );
+
+  return {
+    n: accumulator.count,
+    total,
+    mean,
+    standardDeviation,
+    min: accumulator.statistics.min,
+    max: accumulator.statistics.max,
+    quartiles: getQuartiles({ values, weights }),
+    bins: bins.map((bin) => ({
+      start: bin.start,
+      end: bin.end,
+      count: bin.count,
+      share: total > 0 ? bin.count / total : 0,
+    })),
+    binWidth,
+    excludedBins:
+      excluded && excluded.values.length
+        ? countIntoBins(excluded.values, bins, excluded.weights)
+        : null,
+    fit: summarizeFit(fit),
+    fitName:
+      fit.model === 'kde'
+        ? 'Kernel density estimate'
+        : `${fit.label} distribution`,
+    curve,
+    normalCurve,
+    bounds,
+    beyondBounds: getShareBeyond({ values, weights }, bounds) * 100,
+    intervals: {
+      n: accumulator.count,
+      mean: meanConfidenceInterval(
+        mean,
+        standardDeviation,
+        accumulator.count,
+        confidenceLevelPercentage,
+      ),
+      standardDeviation: standardDeviationConfidenceInterval(
+        standardDeviation,
+        accumulator.count,
+        confidenceLevelPercentage,
+      ),
+    },
+    capability: calculateCapabilityFromSummary(
+      accumulator.getCapabilitySummary(),
+      specificationLimits,
+    ),
+    // The points that stand in for aggregated buckets are no sample of the distribution
+    normality: accumulator.aggregated ? null : assessNormality(values),
+    filters: { options: filters, fences, excluded: accumulator.excluded },
+    points,
+    sample: { values, weights },
+    isSampled: accumulator.isSampled,
+    aggregated: accumulator.aggregated,
+  };
+}
+
+// The fit of another series, drawn over the bins of the primary analysis
+export type SampleFit = {
+  fit: FitSummary;
+  curve: number[][];
+  // Only set when requested
+  bounds: Bounds | null;
+};
+
+/**
+ * Fits the model of the options to the sample of another series, like a compared metric or a
+ * group. Returns null when the model cannot be fitted, e.g. to fewer than two distinct values.
+ * @param sample Values sorted in ascending order
+ * @param binWidth Width of the bins the curve is drawn over
+ * @param withBounds Also finds the bounds of the confidence level
+ */
+export function fitSample(
+  { values, weights }: Sample,
+  {
+    confidenceLevelPercentage = 95,
+    boundMode = 'parametric',
+    coveragePercentage = 95,
+    distribution = 'normal',
+    selectionCriterion = 'aic',
+  }: AnalysisOptions,
+  binWidth: number,
+  withBounds = false,
+): SampleFit | null {
+  const fit = tryFitDistribution(
+    values,
+    distribution,
+    selectionCriterion,
+    weights,
+  );
+  if (!fit) {
+    return null;
+  }
+  const total = weights
+    ? weights.reduce((acc, weight) => acc + weight, 0)
+    : values.length;
+  const statistics = weights
+    ? calculateWeightedStatistics(values, weights)
+    : calculateStatistics(values.map((value) => ({ time: 0, value })));
+  return {
+    fit: summarizeFit(fit),
+    curve: generateDensityCurve(fit, total, binWidth),
+    bounds: withBounds
+      ? getBounds(
+          fit,
+          { values, weights },
+          { ...statistics, n: values.length },
+          confidenceLevelPercentage,
+          boundMode,
+          coveragePercentage,
+        )
+      : null,
+  };
+}
+
+export function getQuartiles({ values, weights }: Sample): Quartiles {
+  return {
+    q1: weightedQuantileSorted(values, weights, 0.25),
+    median: weightedQuantileSorted(values, weights, 0.5),
+    q3: weightedQuantileSorted(values, weights, 0.75),
+  };
+}
+
+function getShareBeyond({ values, weights }: Sample, { lower, upper }: Bounds) {
+  let beyond = 0;
+  let total = 0;
+  values.forEach((value, i) => {
+    const weight = weights ? weights[i] : 1;
+    total += weight;
+    if (value < lower || value > upper) {
+      beyond += weight;
+    }
+  });
+  return total > 0 ? beyond / total : 0;
+}
+
+/**
+ * Bounds of the confidence level. In parametric mode these are mean ± z·σ for the normal model
+ * and the quantiles of the fitted model otherwise, which both assume the model fits the data
+ * and ignore the sample size.
+ * @param sample Values sorted in ascending order
+ */
+export function getBounds(
+  fit: FittedDistribution,
+  { values, weights }: Sample,
+  {
+    mean,
+    standardDeviation,
+    n,
+  }: { mean: number; standardDeviation: number; n: number },
+  confidenceLevelPercentage: number,
+  mode: BoundMode,
+  coveragePercentage: number,
+): Bounds {
+  const alpha = 1 - confidenceLevelPercentage / 100;
+  const lowerPercentile = formatPercentile(alpha / 2);
+  const upperPercentile = formatPercentile(1 - alpha / 2);
+  if (mode === 'percentile') {
+    return {
+      lower: weightedQuantileSorted(values, weights, alpha / 2),
+      upper: weightedQuantileSorted(values, weights, 1 - alpha / 2),
+      lowerLabel: `Lower Bound (${lowerPercentile})`,
+      upperLabel: `Upper Bound (${upperPercentile})`,
+      method: `Empirical percentiles (${lowerPercentile}, ${upperPercentile})`,
+    };
+  }
+  if (mode === 'bootstrap') {
+    const [lower, upper] = bootstrapMeanInterval(
+      values,
+      weights,
+      confidenceLevelPercentage,
+      BOOTSTRAP_RESAMPLES,
+    );
+    return {
+      lower,
+      upper,
+      lowerLabel: 'Mean CI Lower (bootstrap)',
+      upperLabel: 'Mean CI Upper (bootstrap)',
+      method: `Bootstrap ${confidenceLevelPercentage}% confidence interval of the mean (${BOOTSTRAP_RESAMPLES} resamples)`,
+    };
+  }
+  if (mode === 'mean-ci') {
+    const [lower, upper] = meanConfidenceInterval(
+      mean,
+      standardDeviation,
+      n,
+      confidenceLevelPercentage,
+    );
+    return {
+      lower,
+      upper,
+      lowerLabel: 'Mean CI Lower (t)',
+      upperLabel: 'Mean CI Upper (t)',
+      method: `${confidenceLevelPercentage}% confidence interval of the mean (Student's t, n = ${n})`,
+    };
+  }
+  if (mode === 'tolerance') {
+    const [lower, upper] = toleranceInterval(
+      mean,
+      standardDeviation,
+      n,
+      coveragePercentage,
+      confidenceLevelPercentage,
+    );
+    const k = toleranceFactor(n, coveragePercentage, confidenceLevelPercentage);
+    return {
+      lower,
+      upper,
+      lowerLabel: `Lower Tolerance (${coveragePercentage}%/${confidenceLevelPercentage}%)`,
+      upperLabel: `Upper Tolerance (${coveragePercentage}%/${confidenceLevelPercentage}%)`,
+      method: `Normal tolerance interval containing ${coveragePercentage}% of the population with ${confidenceLevelPercentage}% confidence (k = ${k.toFixed(3)}, n = ${n})`,
+    };
+  }
+  if (fit.model === 'normal') {
+    const zScore = getZScoreForConfidence(confidenceLevelPercentage);
+    const [lower, upper] = getConfidenceInterval(
+      mean,
+      standardDeviation,
+      zScore,
+    );
+    return {
+      lower,
+      upper,
+      lowerLabel: `Lower Bound (μ − ${zScore.toFixed(2)}σ)`,
+      upperLabel: `Upper Bound (μ + ${zScore.toFixed(2)}σ)`,
+      method: `${confidenceLevelPercentage}% coverage of the normal model (mean ± ${zScore.toFixed(2)}·σ, ignores the sample size)`,
+    };
+  }
+  // Take the bounds from the fitted model, mean ± z·σ only holds for normal data
+  return {
+    lower: fit.quantile(alpha / 2),
+    upper: fit.quantile(1 - alpha / 2),
+    lowerLabel: `Lower Bound (${fit.label} ${lowerPercentile})`,
+    upperLabel: `Upper Bound (${fit.label} ${upperPercentile})`,
+    method: `Quantiles of the ${fit.label} fit (${lowerPercentile}, ${upperPercentile})`,
+  };
+}
@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import { countIntoBins, resolveBinWidth, type BinningSummary } from './binning';
+
+const SUMMARY: BinningSummary = {
+  n: 1000,
+  min: 0,
+  max: 10,
+  standardDeviation: 2,
+  interquartileRange: 4,
+};
+
+describe('resolveBinWidth', () => {
+  it('applies the rule of every mode', () => {
+    // 2 · IQR / ∛n
+    expect(resolveBinWidth(SUMMARY)).toBeCloseTo(0.8, 12);
+    expect(resolveBinWidth(SUMMARY, { mode: 'freedman-diaconis' })).toBeCloseTo(
+      0.8,
+      12,
+    );
+    // 3.49 · s / ∛n
+    expect(resolveBinWidth(SUMMARY, { mode: 'scott' })).toBeCloseTo(0.698, 12);
+    // range / (⌈log₂ n⌉ + 1)
+    expect(resolveBinWidth(SUMMARY, { mode: 'sturges' })).toBeCloseTo(
+      10 / 11,
+      12,
+    );
+    // range / ⌈√n⌉
+    expect(resolveBinWidth(SUMMARY, { mode: 'sqrt' })).toBeCloseTo(10 / 32, 12);
+    expect(
+      resolveBinWidth(SUMMARY, { mode: 'fixed-width', binWidth: 0.25 }),
+    ).toBe(0.25);
+    expect(
+      resolveBinWidth(SUMMARY, { mode: 'fixed-count', binCount: 20 }),
+    ).toBe(0.5);
+  });
+
+  it('falls back to Sturges when the mode is not usable', () => {
+    expect(resolveBinWidth({ ...SUMMARY, interquartileRange: 0 })).toBeCloseTo(
+      10 / 11,
+      12,
+    );
+    expect(
+      resolveBinWidth(SUMMARY, { mode: 'fixed-width', binWidth: null }),
+    ).toBeCloseTo(10 / 11, 12);
+  });
+
+  it('rounds the width up to a multiple of the resolution', () => {
+    expect(
+      resolveBinWidth(SUMMARY, { mode: 'sturges', resolution: 0.1 }),
+    ).toBeCloseTo(1, 12);
+    expect(
+      resolveBinWidth(SUMMARY, {
+        mode: 'fixed-width',
+        binWidth: 0.001,
+        resolution: 0.1,
+      }),
+    ).toBeCloseTo(0.1, 12);
+  });
+
+  it('limits the number of bins', () => {
+    expect(
+      resolveBinWidth(
+        { ...SUMMARY, max: 1000000 },
+        { mode: 'fixed-width', binWidth: 0.001 },
+      ),
+    ).toBe(1000);
+  });
+
+  it('uses a width of one for a single value', () => {
+    expect(
+      resolveBinWidth({
+        n: 1,
+        min: 5,
+        max: 5,
+        standardDeviation: 0,
+        interquartileRange: 0,
+      }),
+    ).toBe(1);
+  });
+});
+
+describe('countIntoBins', () => {
+  const bins = [
+    { start: 0, end: 1, count: 0 },
+    { start: 1, end: 2, count: 0 },
+    { start: 2, end: 3, count: 0 },
+  ];
+
+  it('counts the values, the ones outside into the outer bins', () => {
+    expect(countIntoBins([-1, 0, 0.5, 1, 2.9, 3, 7], bins)).toEqual([3, 1, 3]);
+  });
+
+  it('sums the weights instead when given', () => {
+    expect(countIntoBins([0.5, 1.5, 2.5], bins, [2, 0.5, 1])).toEqual([
+      2, 0.5, 1,
+    ]);
+  });
+
+  it('returns no counts without bins', () => {
+    expect(countIntoBins([1, 2], [])).toEqual([]);
+  });
+});
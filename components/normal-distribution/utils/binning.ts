@@ -0,0 +1,126 @@
+export type BinningMode =
+  | 'auto'
+  | 'sturges'
+  | 'scott'
+  | 'freedman-diaconis'
+  | 'sqrt'
+  | 'fixed-width'
+  | 'fixed-count';
+
+export type BinningOptions = {
+  mode?: BinningMode;
+  binWidth?: number | null; // Used by 'fixed-width'
+  binCount?: number | null; // Used by 'fixed-count'
+  resolution?: number; // Smallest step between values, e.g. 0.01 for 2 decimals
+};
+
+export type Bin = {
+  start: number;
+  end: number;
+  count: number;
+};
+
+export type Histogram = {
+  bins: Bin[];
+  binWidth: number;
+};
+
+// What the bin width rules need to know about the values, so they also work on streamed data
+export type BinningSummary = {
+  n: number;
+  min: number;
+  max: number;
+  standardDeviation: number; // Sample standard deviation
+  interquartileRange: number;
+};
+
+// Prevents a tiny fixed width or an extreme outlier from producing millions of bars
+const MAX_BIN_COUNT = 1000;
+
+/**
+ * Applies the binning rule of the chosen mode, limited to MAX_BIN_COUNT bins and
+ * rounded up to a multiple of the value resolution.
+ */
+export function resolveBinWidth(
+  summary: BinningSummary,
+  { mode = 'auto', binWidth, binCount, resolution = 0 }: BinningOptions = {},
+): number {
+  const range = summary.max - summary.min;
+  let width = getBinWidth(summary, range, mode, binWidth, binCount);
+  if (range / width > MAX_BIN_COUNT) {
+    width = range / MAX_BIN_COUNT;
+  }
+  if (resolution > 0) {
+    width = Math.max(resolution, Math.ceil(width / resolution) * resolution);
+  }
+  if (!(width > 0)) {
+    width = 1;
+  }
+  return width;
+}
+
+function getBinWidth(
+  { n, standardDeviation, interquartileRange }: BinningSummary,
+  range: number,
+  mode: BinningMode,
+  binWidth?: number | null,
+  binCount?: number | null,
+): number {
+  switch (mode) {
+    case 'fixed-width':
+      if (binWidth && binWidth > 0) {
+        return binWidth;
+      }
+      break;
+    case 'fixed-count':
+      if (binCount && binCount > 0) {
+        return range / Math.round(binCount);
+      }
+      break;
+    case 'sturges':
+      return range / (Math.ceil(Math.log2(n)) + 1);
+    case 'sqrt':
+      return range / Math.ceil(Math.sqrt(n));
+    case 'scott':
+      return (3.49 * standardDeviation) / Math.cbrt(n);
+    case 'freedman-diaconis':
+      return (2 * interquartileRange) / Math.cbrt(n);
+    case 'auto': {
+      // Freedman–Diaconis is robust against outliers, but collapses when more than
+      // half of the values are identical
+      const fdWidth = (2 * interquartileRange) / Math.cbrt(n);
+      if (fdWidth > 0) {
+        return fdWidth;
+      }
+      break;
+    }
+  }
+
+  // Fall back to Sturges when the chosen mode is not usable for this data
+  return range / (Math.ceil(Math.log2(n)) + 1);
+}
+
+/**
+ * Counts the values into existing bins, so several series can share the same bin edges.
+ * @param values Values sorted in ascending order
+ * @param weights Optional weight per value, summed instead of counting the values
+ */
+export function countIntoBins(
+  values: number[],
+  bins: Bin[],
+  weights?: number[],
+): number[] {
+  const counts = new Array<number>(bins.length).fill(0);
+  if (!bins.length) {
+    return counts;
+  }
+  const start = bins[0].start;
+  const width = bins[0].end - bins[0].start;
+  values.forEach((value, i) => {
+    const index = Math.floor((value - start) / width);
+    counts[Math.min(bins.length - 1, Math.max(0, index))] += weights
+      ? weights[i]
+      : 1;
+  });
+  return counts;
+}
@@ -0,0 +1,250 @@
+import {
+  analyzeAccumulator,
+  createDistributionAccumulator,
+  fitSample,
+  getAccumulatorFences,
+  type AnalysisOptions,
+} from './analysis';
+import type { BinningOptions } from './binning';
+import { Gate } from './gate';
+import type { Fences, OutlierFilterOptions } from './outliers';
+import { generateNormalDistributionData } from './statistics';
+import type { AggregatedBucket, DistributionAccumulator } from './streaming';
+
+/**
+ * Number crunching that the compute worker runs off the main thread: normalizing and sorting
+ * points on typed arrays, folding them into distribution accumulators, and the fits, tests
+ * and bootstrap of the analysis. The kernels take and return data that can be posted to a
+ * worker, so no functions or class instances.
+ */
+
+export type ProgressReport = (current: number, total: number) => void;
+
+export type NormalizedPoints = {
+  times: Float64Array;
+  values: Float64Array;
+};
+
+export type SortedPoints = {
+  values: Float64Array;
+  times: Float64Array;
+  weights: Float64Array | null;
+};
+
+/**
+ * Drops the values that are not numbers and applies the factor and rounding of the metric.
+ */
+export function normalizePoints(
+  times: Float64Array,
+  values: Float64Array,
+  factor: number,
+  decimals: number,
+  report: ProgressReport,
+): NormalizedPoints {
+  // Progress is only reported for inputs this large, like a whole cached range
+  const reportInterval = 100000;
+  const keptTimes = new Float64Array(values.length);
+  const keptValues = new Float64Array(values.length);
+  let length = 0;
+  for (let i = 0; i < values.length; i++) {
+    if (i > 0 && i % reportInterval === 0) {
+      report(i, values.length);
+    }
+    if (isNaN(values[i])) {
+      continue;
+    }
+    keptTimes[length] = times[i];
+    keptValues[length] = parseFloat((values[i] * factor).toFixed(decimals));
+    length++;
+  }
+  return {
+    times: keptTimes.slice(0, length),
+    values: keptValues.slice(0, length),
+  };
+}
+
+/**
+ * Sorts the points by value. Equal values keep their order, so they stay chronological.
+ */
+export function sortByValue(
+  values: Float64Array,
+  times: Float64Array,
+  weights: Float64Array | null,
+): SortedPoints {
+  const order = new Uint32Array(values.length);
+  for (let i = 0; i < order.length; i++) {
+    order[i] = i;
+  }
+  order.sort((a, b) => values[a] - values[b] || a - b);
+  const sorted: SortedPoints = {
+    values: new Float64Array(order.length),
+    times: new Float64Array(order.length),
+    weights: weights ? new Float64Array(order.length) : null,
+  };
+  for (let i = 0; i < order.length; i++) {
+    sorted.values[i] = values[order[i]];
+    sorted.times[i] = times[order[i]];
+    if (weights && sorted.weights) {
+      sorted.weights[i] = weights[order[i]];
+    }
+  }
+  return sorted;
+}
+
+/**
+ * Counts the values into `count` bins of equal width, like `countIntoBins`. Values outside
+ * the bins are counted into the first or last bin.
+ * @param weights Optional weight per value, summed instead of counting the values
+ */
+export function countBins(
+  values: Float64Array,
+  weights: Float64Array | null,
+  start: number,
+  width: number,
+  count: number,
+): Float64Array {
+  const counts = new Float64Array(count);
+  if (!count) {
+    return counts;
+  }
+  for (let i = 0; i < values.length; i++) {
+    const index = Math.floor((values[i] - start) / width);
+    counts[Math.min(count - 1, Math.max(0, index))] += weights ? weights[i] : 1;
+  }
+  return counts;
+}
+
+// Accumulators of the draws in progress, the worker keeps them between the pages
+const accumulators = new Map<number, DistributionAccumulator>();
+
+function getAccumulator(id: number) {
+  const accumulator = accumulators.get(id);
+  if (!accumulator) {
+    throw new Error('The accumulator was deleted');
+  }
+  return accumulator;
+}
+
+/**
+ * Creates an accumulator that the points of a draw are folded into, see
+ * `createDistributionAccumulator`.
+ */
+export function createAccumulator(
+  id: number,
+  options: AnalysisOptions,
+  fences: Fences | null,
+) {
+  // A posted gate lost its methods, only its periods are left
+  const gate = options.gate ? Gate.fromPeriods(options.gate.periods) : null;
+  accumulators.set(
+    id,
+    createDistributionAccumulator({ ...options, gate }, fences),
+  );
+}
+
+export function addPoints(
+  id: number,
+  times: Float64Array,
+  values: Float64Array,
+) {
+  getAccumulator(id).add(
+    Array.from(values, (value, i) => ({ time: times[i], value })),
+  );
+}
+
+export function addBuckets(
+  id: number,
+  buckets: AggregatedBucket[],
+  stepMilliseconds: number,
+) {
+  getAccumulator(id).addBuckets(buckets, stepMilliseconds);
+}
+
+export function finishAccumulator(id: number) {
+  getAccumulator(id).finish();
+}
+
+export function getFences(id: number, filters: OutlierFilterOptions) {
+  return getAccumulatorFences(getAccumulator(id), filters);
+}
+
+/**
+ * The histogram of the points folded in so far with the normal curve over it, drawn while
+ * the pages are loading.
+ */
+export function getPreview(id: number, binning: BinningOptions) {
+  const accumulator = getAccumulator(id);
+  const { bins, binWidth } = accumulator.createHistogram(binning);
+  return {
+    bins,
+    normalCurve: bins.length
+      ? generateNormalDistributionData(
+          accumulator.mean,
+          accumulator.standardDeviation,
+          accumulator.total,
+          binWidth,
+        )
+      : [],
+  };
+}
+
+export function analyze(
+  id: number,
+  options: AnalysisOptions,
+  fences: Fences | null,
+) {
+  return analyzeAccumulator(getAccumulator(id), options, fences);
+}
+
+export function getSampleSummary(id: number) {
+  return getAccumulator(id).getSampleSummary();
+}
+
+export function getRecentPoints(id: number) {
+  return getAccumulator(id).getRecentPoints();
+}
+
+export function deleteAccumulator(id: number) {
+  accumulators.delete(id);
+}
+
+export const KERNELS = {
+  normalizePoints,
+  sortByValue,
+  countBins,
+  createAccumulator,
+  addPoints,
+  addBuckets,
+  finishAccumulator,
+  getFences,
+  getPreview,
+  analyze,
+  getSampleSummary,
+  getRecentPoints,
+  deleteAccumulator,
+  fitSample,
+};
+
+export type KernelName = keyof typeof KERNELS;
+
+/**
+ * Buffers of the typed arrays in a message, which are transferred instead of copied.
+ */
+export function getBuffers(message: unknown): ArrayBuffer[] {
+  const buffers: ArrayBuffer[] = [];
+  const items = ArrayBuffer.isView(message)
+    ? [message]
+    : message && typeof message === 'object'
+      ? Object.values(message)
+      : [];
+  for (const item of items) {
+    if (
+      ArrayBuffer.isView(item) &&
+      item.buffer instanceof ArrayBuffer &&
+      buffers.indexOf(item.buffer) === -1
+    ) {
+      buffers.push(item.buffer);
+    }
+  }
+  return buffers;
+}
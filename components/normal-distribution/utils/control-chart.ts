@@ -0,0 +1,354 @@
+import { jStat } from 'jstat';
+
+export type ControlChartType = 'i-mr' | 'xbar-r' | 'xbar-s';
+
+export type ControlChartPoint = {
+  time: number;
+  value: number;
+  // Numbers of the Nelson rules this point violates
+  violations: number[];
+};
+
+export type ControlChartSeries = {
+  name: string;
+  points: ControlChartPoint[];
+  center: number;
+  upper: number;
+  lower: number;
+};
+
+export type ControlChart = {
+  type: ControlChartType;
+  subgroupSize: number;
+  location: ControlChartSeries;
+  dispersion: ControlChartSeries;
+  // Within-subgroup standard deviation estimated from the dispersion chart
+  sigma: number;
+  violationCount: number;
+};
+
+export const NELSON_RULES: { [rule: number]: string } = {
+  1: 'One point beyond 3σ',
+  2: 'Nine points in a row on the same side of the center line',
+  3: 'Six points in a row steadily increasing or decreasing',
+  4: 'Fourteen points in a row alternating up and down',
+  5: 'Two out of three points beyond 2σ on the same side',
+  6: 'Four out of five points beyond 1σ on the same side',
+  7: 'Fifteen points in a row within 1σ',
+  8: 'Eight points in a row beyond 1σ on either side',
+};
+
+// d2 and d3 constants for subgroup sizes 2 to 25, used for the range based limits
+const D2 = [
+  1.128, 1.693, 2.059, 2.326, 2.534, 2.704, 2.847, 2.97, 3.078, 3.173, 3.258,
+  3.336, 3.407, 3.472, 3.532, 3.588, 3.64, 3.689, 3.735, 3.778, 3.819, 3.858,
+  3.895, 3.931,
+];
+const D3 = [
+  0.853, 0.888, 0.88, 0.864, 0.848, 0.833, 0.82, 0.808, 0.797, 0.787, 0.778,
+  0.77, 0.763, 0.756, 0.75, 0.744, 0.739, 0.734, 0.729, 0.724, 0.72, 0.716,
+  0.712, 0.708,
+];
+
+export const MIN_SUBGROUP_SIZE = 2;
+export const MAX_SUBGROUP_SIZE = D2.length + 1;
+
+/**
+ * Builds the control chart of the given type from the data in chronological order.
+ * The control limits are estimated from the same data.
+ * Returns null when there is not enough data for at least two points on the chart.
+ */
+export function buildControlChart(
+  data: { time: number; value: number }[],
+  type: ControlChartType = 'i-mr',
+  subgroupSize = 5,
+): ControlChart | null {
+  if (type === 'i-mr') {
+    return buildIndividualsChart(data);
+  }
+
+  const size = Math.min(
+    MAX_SUBGROUP_SIZE,
+    Math.max(MIN_SUBGROUP_SIZE, Math.round(subgroupSize)),
+  );
+  // An incomplete last subgroup is left out
+  const subgroups: { time: number; values: number[] }[] = [];
+  for (let i = 0; i + size <= data.length; i += size) {
+    const subgroup = data.slice(i, i + size);
+    subgroups.push({
+      time: subgroup[0].time,
+      values: subgroup.map((d) => d.value),
+    });
+  }
+  if (subgroups.length < 2) {
+    return null;
+  }
+
+  return type === 'xbar-r'
+    ? buildMeanRangeChart(subgroups, size)
+    : buildMeanStandardDeviationChart(subgroups, size);
+}
+
+function buildIndividualsChart(
+  data: { time: number; value: number }[],
+): ControlChart | null {
+  if (data.length < 2) {
+    return null;
+  }
+
+  const values = data.map((d) => d.value);
+  const movingRanges = values
+    .slice(1)
+    .map((value, i) => Math.abs(value - values[i]));
+  const mean = average(values);
+  const averageMovingRange = average(movingRanges);
+  const sigma = averageMovingRange / D2[0];
+
+  const location = createSeries(
+    'Individuals',
+    data.map((d) => d.time),
+    values,
+    mean,
+    sigma,
+  );
+  const dispersion = createSeries(
+    'Moving range',
+    data.slice(1).map((d) => d.time),
+    movingRanges,
+    averageMovingRange,
+    null,
+    0,
+    averageMovingRange * (1 + (3 * D3[0]) / D2[0]),
+  );
+
+  return combine('i-mr', 1, location, dispersion, sigma);
+}
+
+function buildMeanRangeChart(
+  subgroups: { time: number; values: number[] }[],
+  size: number,
+): ControlChart {
+  const d2 = D2[size - 2];
+  const d3 = D3[size - 2];
+  const means = subgroups.map((subgroup) => average(subgroup.values));
+  const ranges = subgroups.map(
+    (subgroup) => Math.max(...subgroup.values) - Math.min(...subgroup.values),
+  );
+  const grandMean = average(means);
+  const averageRange = average(ranges);
+  const sigma = averageRange / d2;
+  const times = subgroups.map((subgroup) => subgroup.time);
+
+  const location = createSeries(
+    'Subgroup mean',
+    times,
+    means,
+    grandMean,
+    sigma / Math.sqrt(size),
+  );
+  const dispersion = createSeries(
+    'Range',
+    times,
+    ranges,
+    averageRange,
+    null,
+    Math.max(0, averageRange * (1 - (3 * d3) / d2)),
+    averageRange * (1 + (3 * d3) / d2),
+  );
+
+  return combine('xbar-r', size, location, dispersion, sigma);
+}
+
+function buildMeanStandardDeviationChart(
+  subgroups: { time: number; values: number[] }[],
+  size: number,
+): ControlChart {
+  const c4 = getC4(size);
+  const means = subgroups.map((subgroup) => average(subgroup.values));
+  const deviations = subgroups.map((subgroup, i) =>
+    Math.sqrt(
+      subgroup.values.reduce((acc, v) => acc + Math.pow(v - means[i], 2), 0) /
+        (size - 1),
+    ),
+  );
+  const grandMean = average(means);
+  const averageDeviation = average(deviations);
+  const sigma = averageDeviation / c4;
+  const times = subgroups.map((subgroup) => subgroup.time);
+  const spread = (3 * Math.sqrt(1 - c4 * c4)) / c4;
+
+  const location = createSeries(
+    'Subgroup mean',
+    times,
+    means,
+    grandMean,
+    sigma / Math.sqrt(size),
+  );
+  const dispersion = createSeries(
+    'Standard deviation',
+    times,
+    deviations,
+    averageDeviation,
+    null,
+    Math.max(0, averageDeviation * (1 - spread)),
+    averageDeviation * (1 + spread),
+  );
+
+  return combine('xbar-s', size, location, dispersion, sigma);
+}
+
+/**
+ * Creates a chart series. With a `sigma` the limits are center ± 3σ and all Nelson rules
+ * are evaluated, otherwise the explicit limits are used and only rule 1 applies.
+ */
+function createSeries(
+  name: string,
+  times: number[],
+  values: number[],
+  center: number,
+  sigma: number | null,
+  lower = center - 3 * (sigma ?? 0),
+  upper = center + 3 * (sigma ?? 0),
+): ControlChartSeries {
+  const violations =
+    sigma !== null
+      ? detectNelsonViolations(values, center, sigma)
+      : values.map((value) => (value > upper || value < lower ? [1] : []));
+
+  return {
+    name,
+    points: values.map((value, i) => ({
+      time: times[i],
+      value,
+      violations: violations[i],
+    })),
+    center,
+    upper,
+    lower,
+  };
+}
+
+function combine(
+  type: ControlChartType,
+  subgroupSize: number,
+  location: ControlChartSeries,
+  dispersion: ControlChartSeries,
+  sigma: number,
+): ControlChart {
+  const violationCount = [...location.points, ...dispersion.points].filter(
+    (point) => point.violations.length > 0,
+  ).length;
+  return { type, subgroupSize, location, dispersion, sigma, violationCount };
+}
+
+/**
+ * Evaluates Nelson rules 1–8. A violation is reported on the point that completes the pattern.
+ * @returns The violated rule numbers for every point
+ */
+export function detectNelsonViolations(
+  values: number[],
+  center: number,
+  sigma: number,
+): number[][] {
+  const violations: number[][] = values.map(() => []);
+  if (!(sigma > 0)) {
+    return violations;
+  }
+
+  const z = values.map((value) => (value - center) / sigma);
+  const side = z.map((score) => Math.sign(score));
+  const flag = (index: number, rule: number) => {
+    if (!violations[index].includes(rule)) {
+      violations[index].push(rule);
+    }
+  };
+
+  for (let i = 0; i < z.length; i++) {
+    // Rule 1
+    if (Math.abs(z[i]) > 3) {
+      flag(i, 1);
+    }
+
+    // Rule 2
+    if (i >= 8) {
+      const window = side.slice(i - 8, i + 1);
+      if (window.every((s) => s > 0) || window.every((s) => s < 0)) {
+        flag(i, 2);
+      }
+    }
+
+    // Rule 3: six points means five consecutive differences with the same sign
+    if (i >= 5) {
+      const differences = z
+        .slice(i - 5, i + 1)
+        .slice(1)
+        .map((score, j) => score - z[i - 5 + j]);
+      if (differences.every((d) => d > 0) || differences.every((d) => d < 0)) {
+        flag(i, 3);
+      }
+    }
+
+    // Rule 4: fourteen points means thirteen differences with alternating signs
+    if (i >= 13) {
+      let alternating = true;
+      for (let j = i - 11; j <= i && alternating; j++) {
+        const previous = z[j - 1] - z[j - 2];
+        const current = z[j] - z[j - 1];
+        alternating = previous * current < 0;
+      }
+      if (alternating) {
+        flag(i, 4);
+      }
+    }
+
+    // Rules 5 and 6
+    if (i >= 2 && countOnSameSide(z.slice(i - 2, i + 1), 2) >= 2) {
+      flag(i, 5);
+    }
+    if (i >= 4 && countOnSameSide(z.slice(i - 4, i + 1), 1) >= 4) {
+      flag(i, 6);
+    }
+
+    // Rule 7
+    if (
+      i >= 14 &&
+      z.slice(i - 14, i + 1).every((score) => Math.abs(score) < 1)
+    ) {
+      flag(i, 7);
+    }
+
+    // Rule 8
+    if (i >= 7) {
+      const window = z.slice(i - 7, i + 1);
+      if (
+        window.every((score) => Math.abs(score) > 1) &&
+        window.some((score) => score > 0) &&
+        window.some((score) => score < 0)
+      ) {
+        flag(i, 8);
+      }
+    }
+  }
+
+  return violations;
+}
+
+// Largest number of points beyond `limit` sigma on one side of the center line
+function countOnSameSide(z: number[], limit: number) {
+  return Math.max(
+    z.filter((score) => score > limit).length,
+    z.filter((score) => score < -limit).length,
+  );
+}
+
+function getC4(n: number) {
+  return Math.exp(
+    0.5 * Math.log(2 / (n - 1)) +
+      jStat.gammaln(n / 2) -
+      jStat.gammaln((n - 1) / 2),
+  );
+}
+
+function average(values: number[]) {
+  return values.reduce((acc, v) => acc + v, 0) / values.length;
+}
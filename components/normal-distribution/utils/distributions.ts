@@ -0,0 +1,490 @@
+import { jStat } from 'jstat';
+import { weightedQuantileSorted } from './statistics';
+
+export type DistributionModel =
+  'normal' | 'lognormal' | 'weibull' | 'gamma' | 'exponential' | 'kde';
+
+export type ModelSelection = DistributionModel | 'auto';
+
+export type SelectionCriterion = 'aic' | 'bic';
+
+export type FittedDistribution = {
+  model: DistributionModel;
+  label: string;
+  parameters: { [name: string]: number };
+  // Not available for the non-parametric kernel density estimate
+  logLikelihood: number | null;
+  aic: number | null;
+  bic: number | null;
+  pdf: (x: number) => number;
+  quantile: (p: number) => number;
+  // Range over which the density curve is drawn
+  domain: [number, number];
+};
+
+// A fitted distribution without its functions, which can be posted to and from the compute worker
+export type FitSummary = Omit<FittedDistribution, 'pdf' | 'quantile'>;
+
+const MODEL_LABELS: { [model in DistributionModel]: string } = {
+  normal: 'Normal',
+  lognormal: 'Log-normal',
+  weibull: 'Weibull',
+  gamma: 'Gamma',
+  exponential: 'Exponential',
+  kde: 'Kernel density',
+};
+
+// Candidates for automatic selection, the kernel density estimate has no likelihood to compare
+const PARAMETRIC_MODELS: DistributionModel[] = [
+  'normal',
+  'lognormal',
+  'weibull',
+  'gamma',
+  'exponential',
+];
+
+// Tail probability used to determine the drawn domain of the skewed models
+const DOMAIN_TAIL = 1e-4;
+
+/**
+ * Fits the selected model to the values by maximum likelihood.
+ * With 'auto' every parametric model that supports the data is fitted and the one with
+ * the lowest information criterion is returned.
+ * @param values Values sorted in ascending order
+ * @param weights Optional weight per value, e.g. the duration a value held
+ */
+export function fitDistribution(
+  values: number[],
+  selection: ModelSelection = 'normal',
+  criterion: SelectionCriterion = 'aic',
+  weights?: number[],
+): FittedDistribution {
+  const fitted = tryFitDistribution(values, selection, criterion, weights);
+  if (!fitted) {
+    const requirement =
+      selection === 'normal' || selection === 'kde' || selection === 'auto'
+        ? 'at least two distinct values'
+        : 'strictly positive values';
+    const subject =
+      selection === 'auto'
+        ? 'No distribution can'
+        : `The ${MODEL_LABELS[selection].toLowerCase()} distribution cannot`;
+    throw new Error(
+      `${subject} be fitted to this data, it requires ${requirement}`,
+    );
+  }
+  return fitted;
+}
+
+/**
+ * Like `fitDistribution`, but returns null when the model cannot be fitted, e.g. to fewer
+ * than two distinct values. For the curves of groups and compared metrics, which are left
+ * out instead of failing the whole chart.
+ */
+export function tryFitDistribution(
+  values: number[],
+  selection: ModelSelection = 'normal',
+  criterion: SelectionCriterion = 'aic',
+  weights?: number[],
+): FittedDistribution | null {
+  const frequencies = normalizeWeights(values.length, weights);
+
+  if (selection !== 'auto') {
+    return fitModel(values, selection, frequencies);
+  }
+
+  const candidates = PARAMETRIC_MODELS.map((model) =>
+    fitModel(values, model, frequencies),
+  ).filter((fitted): fitted is FittedDistribution => !!fitted);
+
+  return candidates.reduce<FittedDistribution | null>(
+    (best, fitted) =>
+      !best || (fitted[criterion] ?? Infinity) < (best[criterion] ?? Infinity)
+        ? fitted
+        : best,
+    null,
+  );
+}
+
+export function summarizeFit({
+  model,
+  label,
+  parameters,
+  logLikelihood,
+  aic,
+  bic,
+  domain,
+}: FittedDistribution): FitSummary {
+  return { model, label, parameters, logLikelihood, aic, bic, domain };
+}
+
+/**
+ * Samples the density so it matches a histogram of `dataLength` values with bins of `binWidth`.
+ */
+export function generateDensityCurve(
+  fitted: FittedDistribution,
+  dataLength: number,
+  binWidth: number,
+  points = 200,
+) {
+  const [xMin, xMax] = fitted.domain;
+  const step = (xMax - xMin) / (points - 1);
+  return Array.from({ length: points }, (_, i) => {
+    const x = xMin + i * step;
+    return [x, fitted.pdf(x) * dataLength * binWidth];
+  });
+}
+
+// Scales the weights so they sum up to the number of values, which keeps the
+// likelihood and information criteria on the same scale as unweighted data
+function normalizeWeights(n: number, weights?: number[]) {
+  const total = weights?.reduce((acc, w) => acc + w, 0) ?? 0;
+  if (!weights || !(total > 0)) {
+    return new Array<number>(n).fill(1);
+  }
+  return weights.map((w) => (w * n) / total);
+}
+
+// Weighted sum of f(value), with the weights normalized to sum up to n
+function weightedSum(
+  values: number[],
+  weights: number[],
+  f: (value: number) => number = (value) => value,
+) {
+  return values.reduce((acc, v, i) => acc + weights[i] * f(v), 0);
+}
+
+function fitModel(
+  values: number[],
+  model: DistributionModel,
+  weights: number[],
+): FittedDistribution | null {
+  const n = values.length;
+  if (n < 2) {
+    return null;
+  }
+  // All models except the normal distribution and KDE are only defined for positive values
+  if (model !== 'normal' && model !== 'kde' && !(values[0] > 0)) {
+    return null;
+  }
+
+  switch (model) {
+    case 'normal':
+      return fitNormal(values, weights);
+    case 'lognormal':
+      return fitLognormal(values, weights);
+    case 'weibull':
+      return fitWeibull(values, weights);
+    case 'gamma':
+      return fitGamma(values, weights);
+    case 'exponential':
+      return fitExponential(values, weights);
+    case 'kde':
+      return fitKernelDensity(values, weights);
+  }
+}
+
+function fitNormal(
+  values: number[],
+  weights: number[],
+): FittedDistribution | null {
+  const n = values.length;
+  const mean = weightedSum(values, weights) / n;
+  const standardDeviation = Math.sqrt(
+    weightedSum(values, weights, (v) => Math.pow(v - mean, 2)) / n,
+  );
+  if (!(standardDeviation > 0)) {
+    return null;
+  }
+
+  const logLikelihood =
+    (-n / 2) * Math.log(2 * Math.PI * standardDeviation * standardDeviation) -
+    n / 2;
+
+  return withCriteria(n, 2, logLikelihood, {
+    model: 'normal',
+    label: MODEL_LABELS.normal,
+    parameters: { mean, standardDeviation },
+    pdf: (x) => jStat.normal.pdf(x, mean, standardDeviation),
+    quantile: (p) => jStat.normal.inv(p, mean, standardDeviation),
+    domain: [mean - 5 * standardDeviation, mean + 5 * standardDeviation],
+  });
+}
+
+function fitLognormal(
+  values: number[],
+  weights: number[],
+): FittedDistribution | null {
+  const n = values.length;
+  const sumLogs = weightedSum(values, weights, Math.log);
+  const mu = sumLogs / n;
+  const sigma = Math.sqrt(
+    weightedSum(values, weights, (v) => Math.pow(Math.log(v) - mu, 2)) / n,
+  );
+  if (!(sigma > 0)) {
+    return null;
+  }
+
+  const logLikelihood =
+    -sumLogs - n * Math.log(sigma) - (n / 2) * Math.log(2 * Math.PI) - n / 2;
+  const quantile = (p: number) => jStat.lognormal.inv(p, mu, sigma);
+
+  return withCriteria(n, 2, logLikelihood, {
+    model: 'lognormal',
+    label: MODEL_LABELS.lognormal,
+    parameters: { mu, sigma },
+    pdf: (x) => (x > 0 ? jStat.lognormal.pdf(x, mu, sigma) : 0),
+    quantile,
+    domain: [quantile(DOMAIN_TAIL), quantile(1 - DOMAIN_TAIL)],
+  });
+}
+
+function fitExponential(
+  values: number[],
+  weights: number[],
+): FittedDistribution | null {
+  const n = values.length;
+  const mean = weightedSum(values, weights) / n;
+  const rate = 1 / mean;
+
+  const logLikelihood = n * Math.log(rate) - n;
+  const quantile = (p: number) => jStat.exponential.inv(p, rate);
+
+  return withCriteria(n, 1, logLikelihood, {
+    model: 'exponential',
+    label: MODEL_LABELS.exponential,
+    parameters: { rate },
+    pdf: (x) => (x >= 0 ? jStat.exponential.pdf(x, rate) : 0),
+    quantile,
+    domain: [0, quantile(1 - DOMAIN_TAIL)],
+  });
+}
+
+function fitGamma(
+  values: number[],
+  weights: number[],
+): FittedDistribution | null {
+  const n = values.length;
+  const sum = weightedSum(values, weights);
+  const mean = sum / n;
+  const sumLogs = weightedSum(values, weights, Math.log);
+  const s = Math.log(mean) - sumLogs / n;
+  if (!(s > 0)) {
+    return null;
+  }
+
+  // Newton–Raphson on ln(k) - ψ(k) = s, starting from Minka's approximation
+  let shape = (3 - s + Math.sqrt(Math.pow(s - 3, 2) + 24 * s)) / (12 * s);
+  for (let i = 0; i < 50; i++) {
+    const f = Math.log(shape) - digamma(shape) - s;
+    const df = 1 / shape - trigamma(shape);
+    const next = shape - f / df;
+    shape = next > 0 ? next : shape / 2;
+    if (Math.abs(f) < 1e-10) {
+      break;
+    }
+  }
+  const scale = mean / shape;
+
+  const logLikelihood =
+    (shape - 1) * sumLogs -
+    sum / scale -
+    n * shape * Math.log(scale) -
+    n * jStat.gammaln(shape);
+  const quantile = (p: number) => jStat.gamma.inv(p, shape, scale);
+
+  return withCriteria(n, 2, logLikelihood, {
+    model: 'gamma',
+    label: MODEL_LABELS.gamma,
+    parameters: { shape, scale },
+    pdf: (x) => (x > 0 ? jStat.gamma.pdf(x, shape, scale) : 0),
+    quantile,
+    domain: [quantile(DOMAIN_TAIL), quantile(1 - DOMAIN_TAIL)],
+  });
+}
+
+function fitWeibull(
+  values: number[],
+  weights: number[],
+): FittedDistribution | null {
+  const n = values.length;
+  const max = values[n - 1];
+  // Work on values scaled to (0, 1] so the powers cannot overflow
+  const logs = values.map((v) => Math.log(v / max));
+  const meanLog = weightedSum(logs, weights) / n;
+  const sdLog = Math.sqrt(
+    weightedSum(logs, weights, (l) => Math.pow(l - meanLog, 2)) / n,
+  );
+  if (!(sdLog > 0)) {
+    return null;
+  }
+
+  // Newton–Raphson on the profile likelihood equation of the shape parameter
+  let shape = 1.2 / sdLog;
+  for (let i = 0; i < 100; i++) {
+    let s0 = 0;
+    let s1 = 0;
+    let s2 = 0;
+    for (let j = 0; j < n; j++) {
+      const l = logs[j];
+      const p = weights[j] * Math.exp(shape * l);
+      s0 += p;
+      s1 += p * l;
+      s2 += p * l * l;
+    }
+    const f = s1 / s0 - 1 / shape - meanLog;
+    const df = (s2 * s0 - s1 * s1) / (s0 * s0) + 1 / (shape * shape);
+    const next = shape - f / df;
+    shape = next > 0 ? next : shape / 2;
+    if (Math.abs(f) < 1e-10) {
+      break;
+    }
+  }
+
+  const sumPowers = weightedSum(logs, weights, (l) => Math.exp(shape * l));
+  const scale = max * Math.pow(sumPowers / n, 1 / shape);
+
+  const sumLogs = weightedSum(values, weights, Math.log);
+  const logLikelihood =
+    n * Math.log(shape) -
+    n * shape * Math.log(scale) +
+    (shape - 1) * sumLogs -
+    weightedSum(values, weights, (v) => Math.pow(v / scale, shape));
+  const quantile = (p: number) => jStat.weibull.inv(p, scale, shape);
+
+  return withCriteria(n, 2, logLikelihood, {
+    model: 'weibull',
+    label: MODEL_LABELS.weibull,
+    parameters: { shape, scale },
+    pdf: (x) => (x > 0 ? jStat.weibull.pdf(x, scale, shape) : 0),
+    quantile,
+    domain: [quantile(DOMAIN_TAIL), quantile(1 - DOMAIN_TAIL)],
+  });
+}
+
+// Number of grid points the data is pre-binned on, so evaluating the estimate does not scale with n
+const KDE_GRID_SIZE = 1024;
+
+function fitKernelDensity(
+  values: number[],
+  weights: number[],
+): FittedDistribution | null {
+  const n = values.length;
+  const mean = weightedSum(values, weights) / n;
+  const standardDeviation = Math.sqrt(
+    weightedSum(values, weights, (v) => Math.pow(v - mean, 2)) / (n - 1),
+  );
+  const iqr =
+    weightedQuantileSorted(values, weights, 0.75) -
+    weightedQuantileSorted(values, weights, 0.25);
+
+  // Silverman's rule of thumb
+  const spread =
+    iqr > 0 ? Math.min(standardDeviation, iqr / 1.34) : standardDeviation;
+  const bandwidth = 0.9 * spread * Math.pow(n, -0.2);
+  if (!(bandwidth > 0)) {
+    return null;
+  }
+
+  const min = values[0];
+  const max = values[n - 1];
+  const gridStep = (max - min) / (KDE_GRID_SIZE - 1) || 1;
+  const gridWeights = new Array<number>(KDE_GRID_SIZE).fill(0);
+  values.forEach((v, i) => {
+    gridWeights[Math.round((v - min) / gridStep)] += weights[i];
+  });
+  const grid = gridWeights
+    .map((weight, i) => ({ x: min + i * gridStep, weight }))
+    .filter((point) => point.weight > 0);
+
+  const pdf = (x: number) =>
+    grid.reduce(
+      (acc, point) =>
+        acc + point.weight * jStat.normal.pdf((x - point.x) / bandwidth, 0, 1),
+      0,
+    ) /
+    (n * bandwidth);
+  const cdf = (x: number) =>
+    grid.reduce(
+      (acc, point) =>
+        acc + point.weight * jStat.normal.cdf((x - point.x) / bandwidth, 0, 1),
+      0,
+    ) / n;
+
+  const domain: [number, number] = [min - 3 * bandwidth, max + 3 * bandwidth];
+
+  // The estimate has no closed form inverse, bisect the cumulative distribution instead
+  const quantile = (p: number) => {
+    let low = min - 10 * bandwidth;
+    let high = max + 10 * bandwidth;
+    for (let i = 0; i < 60; i++) {
+      const mid = (low + high) / 2;
+      if (cdf(mid) < p) {
+        low = mid;
+      } else {
+        high = mid;
+      }
+    }
+    return (low + high) / 2;
+  };
+
+  return {
+    model: 'kde',
+    label: MODEL_LABELS.kde,
+    parameters: { bandwidth },
+    logLikelihood: null,
+    aic: null,
+    bic: null,
+    pdf,
+    quantile,
+    domain,
+  };
+}
+
+function withCriteria(
+  n: number,
+  parameterCount: number,
+  logLikelihood: number,
+  fitted: Omit<FittedDistribution, 'logLikelihood' | 'aic' | 'bic'>,
+): FittedDistribution | null {
+  if (!Number.isFinite(logLikelihood)) {
+    return null;
+  }
+  return {
+    ...fitted,
+    logLikelihood,
+    aic: 2 * parameterCount - 2 * logLikelihood,
+    bic: parameterCount * Math.log(n) - 2 * logLikelihood,
+  };
+}
+
+function digamma(x: number) {
+  let result = 0;
+  // Shift x up with the recurrence ψ(x) = ψ(x + 1) - 1/x until the asymptotic series is accurate
+  while (x < 6) {
+    result -= 1 / x;
+    x += 1;
+  }
+  const f = 1 / (x * x);
+  return (
+    result +
+    Math.log(x) -
+    0.5 / x -
+    f * (1 / 12 - f * (1 / 120 - f * (1 / 252 - f * (1 / 240 - f / 132))))
+  );
+}
+
+function trigamma(x: number) {
+  let result = 0;
+  while (x < 6) {
+    result += 1 / (x * x);
+    x += 1;
+  }
+  const f = 1 / (x * x);
+  return (
+    result +
+    1 / x +
+    f / 2 +
+    (1 / (x * x * x)) * (1 / 6 - f * (1 / 30 - f * (1 / 42 - f / 30)))
+  );
+}
@@ -0,0 +1,229 @@
+import {
+  EXCLUSION_LABELS,
+  type ExclusionCounts,
+  type ExclusionReason,
+} from './outliers';
+import { createXlsx, type Cell, type Sheet } from './xlsx';
+
+export type ExportFormat = 'csv' | 'json' | 'xlsx';
+
+export type ExportPart = 'data' | 'histogram' | 'curve' | 'statistics';
+
+export type ExportStatistics = {
+  metric: string;
+  unit: string | null;
+  from: number;
+  to: number;
+  n: number;
+  mean: number;
+  standardDeviation: number;
+  lowerBound: number;
+  upperBound: number;
+  // How the bounds were found
+  boundMethod: string;
+  confidenceLevelPercentage: number;
+  median: number;
+  interquartileRange: number;
+  // Confidence intervals of the estimates at the confidence level
+  meanConfidenceInterval: [number, number];
+  standardDeviationConfidenceInterval: [number, number];
+  model: string;
+  timeWeighted: boolean;
+  // Number of samples each filter left out
+  excluded: ExclusionCounts;
+  // Whether the exported points are all points, a random sample of them or none at all
+  // because the distribution was built from server-side aggregated buckets
+  points: 'all' | 'sampled' | 'aggregated';
+};
+
+/**
+ * The numbers behind a drawn chart.
+ */
+export type ExportData = {
+  // Filtered points in chronological order
+  points: { time: number; value: number }[];
+  bins: { start: number; end: number; count: number; share: number }[];
+  // Points of the fitted curve as [value, frequency]
+  curve: number[][];
+  // Axis name of the counts, which are durations in time-weighted mode
+  frequencyLabel: string;
+  statistics: ExportStatistics;
+};
+
+const PART_NAMES: { [part in ExportPart]: string } = {
+  data: 'Data',
+  histogram: 'Histogram',
+  curve: 'Fitted curve',
+  statistics: 'Statistics',
+};
+
+const MIME_TYPES: { [format in ExportFormat]: string } = {
+  csv: 'text/csv;charset=utf-8',
+  json: 'application/json',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
+
+/**
+ * Converts a part of the export to a table with a header row.
+ */
+export function createExportSheet(data: ExportData, part: ExportPart): Sheet {
+  const name = PART_NAMES[part];
+  switch (part) {
+    case 'data':
+      return {
+        name,
+        rows: [
+          ['Time', 'Value'],
+          ...data.points.map(({ time, value }) => [toIsoString(time), value]),
+        ],
+      };
+    case 'histogram':
+      return {
+        name,
+        rows: [
+          ['Bin start', 'Bin end', data.frequencyLabel, 'Share'],
+          ...data.bins.map(({ start, end, count, share }) => [
+            start,
+            end,
+            count,
+            share,
+          ]),
+        ],
+      };
+    case 'curve':
+      return {
+        name,
+        rows: [['Value', data.frequencyLabel], ...data.curve],
+      };
+    case 'statistics':
+      return {
+        name,
+        rows: [['Statistic', 'Value'], ...getStatisticsRows(data.statistics)],
+      };
+  }
+}
+
+function getStatisticsRows(statistics: ExportStatistics): Cell[][] {
+  return [
+    ['Metric', statistics.metric],
+    ['Unit', statistics.unit],
+    ['From', toIsoString(statistics.from)],
+    ['To', toIsoString(statistics.to)],
+    ['n', statistics.n],
+    ['Mean', statistics.mean],
+    ['Standard deviation', statistics.standardDeviation],
+    ['Confidence level (%)', statistics.confidenceLevelPercentage],
+    ['Lower bound', statistics.lowerBound],
+    ['Upper bound', statistics.upperBound],
+    ['Bound method', statistics.boundMethod],
+    ['Mean CI lower', statistics.meanConfidenceInterval[0]],
+    ['Mean CI upper', statistics.meanConfidenceInterval[1]],
+    [
+      'Standard deviation CI lower',
+      statistics.standardDeviationConfidenceInterval[0],
+    ],
+    [
+      'Standard deviation CI upper',
+      statistics.standardDeviationConfidenceInterval[1],
+    ],
+    ['Median', statistics.median],
+    ['Interquartile range', statistics.interquartileRange],
+    ['Model', statistics.model],
+    ['Time-weighted', statistics.timeWeighted ? 'yes' : 'no'],
+    ['Points', statistics.points],
+    ...(Object.keys(statistics.excluded) as ExclusionReason[]).map((reason) => [
+      `Excluded (${EXCLUSION_LABELS[reason]})`,
+      statistics.excluded[reason] ?? 0,
+    ]),
+  ];
+}
+
+export function toCsv({ rows }: Sheet) {
+  return rows.map((row) => row.map(toCsvField).join(',')).join('\r\n');
+}
+
+function toCsvField(cell: Cell) {
+  if (cell === null) {
+    return '';
+  }
+  const text = String(cell);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Converts the export to JSON, with times as ISO strings and the curve as objects.
+ */
+export function toJson(data: ExportData, parts: ExportPart[]) {
+  const content: { [key: string]: unknown } = {};
+  for (const part of parts) {
+    switch (part) {
+      case 'data':
+        content.points = data.points.map(({ time, value }) => ({
+          time: toIsoString(time),
+          value,
+        }));
+        break;
+      case 'histogram':
+        content.bins = data.bins;
+        break;
+      case 'curve':
+        content.curve = data.curve.map(([value, frequency]) => ({
+          value,
+          frequency,
+        }));
+        break;
+      case 'statistics':
+        content.statistics = {
+          ...data.statistics,
+          from: toIsoString(data.statistics.from),
+          to: toIsoString(data.statistics.to),
+        };
+        break;
+    }
+  }
+  return JSON.stringify(content, null, 2);
+}
+
+/**
+ * Downloads the given parts of the export as a file. CSV holds a single table, JSON and
+ * XLSX can hold several.
+ */
+export function downloadExport(
+  data: ExportData,
+  parts: ExportPart[],
+  format: ExportFormat,
+  fileName: string,
+) {
+  if (format === 'csv' && parts.length !== 1) {
+    throw new Error('A CSV file holds a single table');
+  }
+  let content: BlobPart;
+  switch (format) {
+    case 'csv':
+      // The byte order mark makes spreadsheet applications read the file as UTF-8
+      content = `\ufeff${toCsv(createExportSheet(data, parts[0]))}`;
+      break;
+    case 'json':
+      content = toJson(data, parts);
+      break;
+    case 'xlsx':
+      content = createXlsx(parts.map((part) => createExportSheet(data, part)));
+      break;
+  }
+
+  const url = URL.createObjectURL(
+    new Blob([content], { type: MIME_TYPES[format] }),
+  );
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${fileName}.${format}`;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Give the browser a moment to start the download before releasing the data
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+function toIsoString(time: number) {
+  return new Date(time).toISOString();
+}
@@ -0,0 +1,10 @@
+export function formatValue(value: number, decimals: number) {
+  return decimals === 0
+    ? Math.round(value).toString()
+    : value.toFixed(decimals);
+}
+
+// 0.025 → "P2.5", 0.99865 → "P99.865"
+export function formatPercentile(p: number) {
+  return `P${Number((p * 100).toPrecision(5))}`;
+}
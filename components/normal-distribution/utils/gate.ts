@@ -0,0 +1,111 @@
+export type GateCondition = {
+  // 'nonzero' suits boolean tags such as a running signal
+  mode?: 'nonzero' | 'equals' | 'range';
+  value?: number | null;
+  min?: number | null;
+  max?: number | null;
+};
+
+export function isGateConditionMet(
+  value: number,
+  {
+    mode = 'nonzero',
+    value: expected = null,
+    min = null,
+    max = null,
+  }: GateCondition,
+) {
+  switch (mode) {
+    case 'equals':
+      return expected !== null && value === expected;
+    case 'range':
+      return (min === null || value >= min) && (max === null || value <= max);
+    default:
+      return value !== 0;
+  }
+}
+
+/**
+ * The periods in which the condition on a gate tag held. Tags are logged on change, so every
+ * gate value holds until the next one; before the first value the gate counts as closed.
+ */
+export class Gate {
+  // Open periods in chronological order, each ending before the next one starts
+  readonly periods: { from: number; to: number }[] = [];
+
+  /**
+   * @param points Gate values in chronological order, starting with the value that holds at `from`
+   * @param end End of the time range, where the last value stops holding
+   */
+  constructor(
+    points: { time: number; value: number }[],
+    condition: GateCondition,
+    end: number,
+  ) {
+    let openedAt: number | null = null;
+    for (const { time, value } of points) {
+      const isOpen = isGateConditionMet(value, condition);
+      if (isOpen && openedAt === null) {
+        openedAt = time;
+      } else if (!isOpen && openedAt !== null) {
+        this.addPeriod(openedAt, time);
+        openedAt = null;
+      }
+    }
+    if (openedAt !== null) {
+      this.addPeriod(openedAt, end);
+    }
+  }
+
+  /**
+   * Restores a gate from its open periods, like after it was posted to the compute worker.
+   */
+  static fromPeriods(periods: { from: number; to: number }[]) {
+    const gate = new Gate([], {}, 0);
+    for (const { from, to } of periods) {
+      gate.addPeriod(from, to);
+    }
+    return gate;
+  }
+
+  private addPeriod(from: number, to: number) {
+    if (to > from) {
+      this.periods.push({ from, to });
+    }
+  }
+
+  isOpen(time: number) {
+    const index = this.search(time);
+    return index < this.periods.length && this.periods[index].from <= time;
+  }
+
+  /**
+   * Milliseconds the gate was open between `from` and `to`.
+   */
+  getOpenDuration(from: number, to: number) {
+    let duration = 0;
+    for (let i = this.search(from); i < this.periods.length; i++) {
+      const period = this.periods[i];
+      if (period.from >= to) {
+        break;
+      }
+      duration += Math.min(to, period.to) - Math.max(from, period.from);
+    }
+    return duration;
+  }
+
+  // Index of the first period that ends after `time`
+  private search(time: number) {
+    let low = 0;
+    let high = this.periods.length;
+    while (low < high) {
+      const middle = (low + high) >> 1;
+      if (this.periods[middle].to <= time) {
+        low = middle + 1;
+      } else {
+        high = middle;
+      }
+    }
+    return low;
+  }
+}
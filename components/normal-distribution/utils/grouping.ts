@@ -0,0 +1,127 @@
+export type GroupKey = {
+  // Orders the groups
+  order: number;
+  label: string;
+};
+
+/**
+ * A tag that is logged on change, where every value holds until the next one.
+ */
+export class StepSeries {
+  private times: number[];
+  private values: number[];
+
+  /**
+   * @param points Values in chronological order, starting with the value that holds at the start of the range
+   */
+  constructor(points: { time: number; value: number }[]) {
+    this.times = points.map((point) => point.time);
+    this.values = points.map((point) => point.value);
+  }
+
+  // The value that held at `time`, null before the first value
+  getValueAt(time: number) {
+    let low = 0;
+    let high = this.times.length;
+    while (low < high) {
+      const middle = (low + high) >> 1;
+      if (this.times[middle] <= time) {
+        low = middle + 1;
+      } else {
+        high = middle;
+      }
+    }
+    return low > 0 ? this.values[low - 1] : null;
+  }
+}
+
+/**
+ * Parses shift start times such as "6, 14, 22" or "5:30, 13:30" into minutes of the day.
+ */
+export function parseShiftStarts(text: string) {
+  const starts = text
+    .split(',')
+    .map((part) => part.trim())
+    .filter((part) => part !== '')
+    .map((part) => {
+      const [hours, minutes = '0'] = part.split(':');
+      return Number(hours) * 60 + Number(minutes);
+    })
+    .filter(
+      (minutes) => Number.isFinite(minutes) && minutes >= 0 && minutes < 1440,
+    );
+  return [...new Set(starts)].sort((a, b) => a - b);
+}
+
+/**
+ * The shift a time falls in, in the local time zone. A time before the first start belongs
+ * to the last shift, which started the day before.
+ * @param starts Start times of the shifts in minutes of the day, in ascending order
+ */
+export function getShift(time: number, starts: number[]): GroupKey | null {
+  if (!starts.length) {
+    return null;
+  }
+  const date = new Date(time);
+  const minutes = date.getHours() * 60 + date.getMinutes();
+  let index = starts.length - 1;
+  while (index > 0 && starts[index] > minutes) {
+    index--;
+  }
+  if (starts[index] > minutes) {
+    index = starts.length - 1;
+  }
+  const end = starts[(index + 1) % starts.length];
+  return {
+    order: index,
+    label: `Shift ${index + 1} (${formatMinutes(starts[index])}–${formatMinutes(end)})`,
+  };
+}
+
+function formatMinutes(minutes: number) {
+  const pad = (value: number) => value.toString().padStart(2, '0');
+  return `${pad(Math.floor(minutes / 60))}:${pad(minutes % 60)}`;
+}
+
+/**
+ * Splits the points into groups in the order of their keys. When there are more than
+ * `maxGroups`, the groups with the least weight are merged into one last group.
+ * @param getKey Group of a point, points without a group are left out
+ */
+export function groupPoints<T extends { time: number; weight?: number }>(
+  points: T[],
+  getKey: (point: T) => GroupKey | null,
+  maxGroups: number,
+) {
+  const groups = new Map<string, GroupKey & { points: T[]; total: number }>();
+  for (const point of points) {
+    const key = getKey(point);
+    if (!key) {
+      continue;
+    }
+    let group = groups.get(key.label);
+    if (!group) {
+      group = { ...key, points: [], total: 0 };
+      groups.set(key.label, group);
+    }
+    group.points.push(point);
+    group.total += point.weight ?? 1;
+  }
+
+  const bySize = [...groups.values()].sort((a, b) => b.total - a.total);
+  const keptCount = bySize.length > maxGroups ? maxGroups - 1 : maxGroups;
+  const kept = bySize
+    .slice(0, keptCount)
+    .sort((a, b) => a.order - b.order)
+    .map(({ label, points }) => ({ label, points }));
+  const rest = bySize.slice(keptCount);
+  if (rest.length) {
+    kept.push({
+      label: `Other (${rest.length} groups)`,
+      points: rest
+        .reduce<T[]>((points, group) => points.concat(group.points), [])
+        .sort((a, b) => a.time - b.time),
+    });
+  }
+  return kept;
+}
@@ -0,0 +1,202 @@
+import { jStat } from 'jstat';
+import { quantileSorted } from './statistics';
+
+export type OutlierMethod = 'none' | 'iqr' | 'mad' | 'grubbs';
+
+export type OutlierFilterOptions = {
+  ignoreZero?: boolean;
+  // Values below `min` or above `max` are excluded
+  min?: number | null;
+  max?: number | null;
+  // Values a device logs instead of a measurement, like -32768 or 9999
+  sentinels?: number[];
+  method?: OutlierMethod;
+  // Multiple of the interquartile range beyond the quartiles, 1.5 for Tukey's fences
+  iqrFactor?: number | null;
+  // Modified z-score beyond which a value is an outlier
+  madThreshold?: number | null;
+  // Significance level of Grubbs' test
+  grubbsAlpha?: number | null;
+};
+
+export type ExclusionReason =
+  'gate' | 'zero' | 'range' | 'sentinel' | 'iqr' | 'mad' | 'grubbs';
+
+export type ExclusionCounts = { [reason in ExclusionReason]?: number };
+
+export const EXCLUSION_LABELS: { [reason in ExclusionReason]: string } = {
+  gate: 'while the gate was closed',
+  zero: 'zero',
+  range: 'out of range',
+  sentinel: 'sentinel value',
+  iqr: 'IQR outlier',
+  mad: 'MAD outlier',
+  grubbs: 'Grubbs outlier',
+};
+
+// Values below `lower` or above `upper` are outliers
+export type Fences = { lower: number; upper: number };
+
+export type ValueFilter = (value: number) => ExclusionReason | null;
+
+/**
+ * Creates a filter that tells why a value is excluded, or null when it is kept.
+ * @param fences Bounds of the statistical method, found on the values the other filters keep
+ */
+export function createValueFilter(
+  {
+    ignoreZero = false,
+    min = null,
+    max = null,
+    sentinels = [],
+    method = 'none',
+  }: OutlierFilterOptions,
+  fences: Fences | null = null,
+): ValueFilter {
+  const sentinelSet = new Set(sentinels);
+  return (value) => {
+    if (ignoreZero && value === 0) {
+      return 'zero';
+    }
+    if ((min !== null && value < min) || (max !== null && value > max)) {
+      return 'range';
+    }
+    if (sentinelSet.has(value)) {
+      return 'sentinel';
+    }
+    if (
+      fences &&
+      method !== 'none' &&
+      (value < fences.lower || value > fences.upper)
+    ) {
+      return method;
+    }
+    return null;
+  };
+}
+
+/**
+ * Finds the bounds beyond which the statistical method considers values outliers.
+ * Returns null when there is no method or too little spread to tell outliers apart.
+ * @param sortedValues The values kept by the other filters, in ascending order
+ */
+export function getOutlierFences(
+  sortedValues: number[],
+  {
+    method = 'none',
+    iqrFactor,
+    madThreshold,
+    grubbsAlpha,
+  }: OutlierFilterOptions,
+): Fences | null {
+  if (sortedValues.length < 3) {
+    return null;
+  }
+  switch (method) {
+    case 'iqr':
+      return getTukeyFences(sortedValues, iqrFactor || 1.5);
+    case 'mad':
+      return getMadFences(sortedValues, madThreshold || 3.5);
+    case 'grubbs':
+      return getGrubbsFences(sortedValues, grubbsAlpha || 0.05);
+    default:
+      return null;
+  }
+}
+
+function getTukeyFences(sortedValues: number[], factor: number): Fences {
+  const q1 = quantileSorted(sortedValues, 0.25);
+  const q3 = quantileSorted(sortedValues, 0.75);
+  const iqr = q3 - q1;
+  return { lower: q1 - factor * iqr, upper: q3 + factor * iqr };
+}
+
+// Iglewicz and Hoaglin: the modified z-score 0.6745·(x - median) / MAD
+function getMadFences(sortedValues: number[], threshold: number) {
+  const median = quantileSorted(sortedValues, 0.5);
+  const deviations = sortedValues
+    .map((value) => Math.abs(value - median))
+    .sort((a, b) => a - b);
+  const mad = quantileSorted(deviations, 0.5);
+  if (!(mad > 0)) {
+    return null;
+  }
+  const distance = (threshold * mad) / 0.6745;
+  return { lower: median - distance, upper: median + distance };
+}
+
+/**
+ * Applies the two-sided Grubbs' test repeatedly, removing the most extreme value while it is
+ * a significant outlier. The fences lie halfway between the removed and the kept values.
+ */
+function getGrubbsFences(sortedValues: number[], alpha: number): Fences {
+  // Sums of the values relative to the median, to limit cancellation in the variance
+  const shift = sortedValues[sortedValues.length >> 1];
+  let low = 0;
+  let high = sortedValues.length - 1;
+  let sum = 0;
+  let sumOfSquares = 0;
+  for (const value of sortedValues) {
+    sum += value - shift;
+    sumOfSquares += (value - shift) ** 2;
+  }
+
+  while (high - low + 1 > 2) {
+    const n = high - low + 1;
+    const mean = sum / n;
+    const variance = (sumOfSquares - n * mean * mean) / (n - 1);
+    if (!(variance > 0)) {
+      break;
+    }
+    const lowDeviation = mean - (sortedValues[low] - shift);
+    const highDeviation = sortedValues[high] - shift - mean;
+    const g = Math.max(lowDeviation, highDeviation) / Math.sqrt(variance);
+    const t = jStat.studentt.inv(1 - alpha / (2 * n), n - 2);
+    const critical =
+      ((n - 1) / Math.sqrt(n)) * Math.sqrt((t * t) / (n - 2 + t * t));
+    if (!(g > critical)) {
+      break;
+    }
+    const removed = lowDeviation >= highDeviation ? low++ : high--;
+    sum -= sortedValues[removed] - shift;
+    sumOfSquares -= (sortedValues[removed] - shift) ** 2;
+  }
+
+  return {
+    lower:
+      low > 0 ? (sortedValues[low - 1] + sortedValues[low]) / 2 : -Infinity,
+    upper:
+      high < sortedValues.length - 1
+        ? (sortedValues[high] + sortedValues[high + 1]) / 2
+        : Infinity,
+  };
+}
+
+/**
+ * Filters points that are all in memory: first by value, then by the statistical method
+ * on the values that are left.
+ */
+export function filterOutliers<T extends { value: number }>(
+  points: T[],
+  options: OutlierFilterOptions,
+) {
+  const counts: ExclusionCounts = {};
+  const applyFilter = (filter: ValueFilter, items: T[]) =>
+    items.filter((point) => {
+      const reason = filter(point.value);
+      if (reason) {
+        counts[reason] = (counts[reason] ?? 0) + 1;
+      }
+      return !reason;
+    });
+
+  let kept = applyFilter(createValueFilter(options), points);
+  const fences = getOutlierFences(
+    kept.map((point) => point.value).sort((a, b) => a - b),
+    options,
+  );
+  if (fences) {
+    kept = applyFilter(createValueFilter(options, fences), kept);
+  }
+  return { points: kept, counts };
+}
@@ -0,0 +1,124 @@
+import { jStat } from 'jstat';
+
+// Plotted points beyond this number are thinned evenly over the ranks, keeping both tails
+const MAX_PLOT_POINTS = 2000;
+
+export type QuantilePlot = {
+  // [theoretical standard normal quantile, observed value]
+  points: number[][];
+  // The normal distribution with the sample mean and standard deviation, as [quantile, value]
+  line: number[][];
+  // Pointwise confidence band around the line, as [quantile, value]
+  lower: number[][];
+  upper: number[][];
+};
+
+/**
+ * Empirical cumulative distribution as steps of [value, share of the values up to it].
+ * @param values Values sorted in ascending order
+ * @param weights Optional weight per value, e.g. the duration a value held
+ */
+export function empiricalCdf(values: number[], weights?: number[]) {
+  const total = weights
+    ? weights.reduce((acc, weight) => acc + weight, 0)
+    : values.length;
+  const points: number[][] = [];
+  if (!(total > 0)) {
+    return points;
+  }
+  let cumulative = 0;
+  for (let i = 0; i < values.length; i++) {
+    cumulative += weights ? weights[i] : 1;
+    // Equal values make a single step
+    if (i === values.length - 1 || values[i + 1] !== values[i]) {
+      points.push([values[i], cumulative / total]);
+    }
+  }
+  return thin(points);
+}
+
+/**
+ * Cumulative distribution of the normal distribution between `from` and `to`.
+ */
+export function normalCdfCurve(
+  mean: number,
+  standardDeviation: number,
+  from: number,
+  to: number,
+  points = 200,
+) {
+  if (!(standardDeviation > 0) || !(to > from)) {
+    return [];
+  }
+  const step = (to - from) / (points - 1);
+  return Array.from({ length: points }, (_, i) => {
+    const x = from + i * step;
+    return [x, jStat.normal.cdf(x, mean, standardDeviation)];
+  });
+}
+
+/**
+ * Normal probability (Q-Q) plot: the sorted values against the standard normal quantiles of
+ * their plotting positions. Normal data lies on the line; the band is the pointwise
+ * confidence interval of each order statistic, which widens in the tails.
+ * @param values Values sorted in ascending order
+ * @param weights Optional weight per value, e.g. the duration a value held
+ * @param confidence Confidence level of the band in percent
+ */
+export function normalQuantilePlot(
+  values: number[],
+  weights: number[] | undefined,
+  mean: number,
+  standardDeviation: number,
+  confidence: number,
+): QuantilePlot {
+  const n = values.length;
+  const plot: QuantilePlot = { points: [], line: [], lower: [], upper: [] };
+  if (n < 2 || !(standardDeviation > 0)) {
+    return plot;
+  }
+  const total = weights ? weights.reduce((acc, weight) => acc + weight, 0) : n;
+  const z = jStat.normal.inv(1 - (1 - confidence / 100) / 2, 0, 1);
+
+  let cumulative = 0;
+  const positions = values.map((_, i) => {
+    if (!weights) {
+      // Blom's plotting positions, nearly unbiased for normal order statistics
+      return (i + 1 - 0.375) / (n + 0.25);
+    }
+    // Hazen's positions on the cumulative weight: the middle of the share each value holds
+    const p = (cumulative + weights[i] / 2) / total;
+    cumulative += weights[i];
+    return p;
+  });
+
+  for (const i of thinIndices(n)) {
+    const p = positions[i];
+    const quantile = jStat.normal.inv(p, 0, 1);
+    const expected = mean + standardDeviation * quantile;
+    // Standard error of the p-quantile of a normal sample
+    const standardError =
+      (standardDeviation * Math.sqrt((p * (1 - p)) / n)) /
+      jStat.normal.pdf(quantile, 0, 1);
+    plot.points.push([quantile, values[i]]);
+    plot.line.push([quantile, expected]);
+    plot.lower.push([quantile, expected - z * standardError]);
+    plot.upper.push([quantile, expected + z * standardError]);
+  }
+  return plot;
+}
+
+function thin<T>(items: T[]) {
+  return thinIndices(items.length).map((i) => items[i]);
+}
+
+// Evenly spaced indices that always include the first and the last
+function thinIndices(length: number) {
+  if (length <= MAX_PLOT_POINTS) {
+    return Array.from({ length }, (_, i) => i);
+  }
+  const step = (length - 1) / (MAX_PLOT_POINTS - 1);
+  return Array.from({ length: MAX_PLOT_POINTS }, (_, i) =>
+    Math.round(i * step),
+  );
+}
@@ -0,0 +1,109 @@
+import type { LoggingDataTimeRange } from '@ixon-cdk/types';
+import type { SampledPoint } from './streaming';
+
+// Points drawn in the time strip beyond this number are thinned evenly
+const MAX_STRIP_POINTS = 1000;
+
+// The densest cluster is searched with a window of this share of the time range
+const CLUSTER_WINDOW_SHARE = 0.1;
+
+export type RangeSelection = {
+  // Range of values that was selected in the histogram
+  from: number;
+  to: number;
+  // Number of samples in the range, estimated from the sample when the points were sampled
+  count: number;
+  // Share of the samples in the range, or of the time in time-weighted mode
+  share: number;
+  // The selected points in chronological order, thinned for the time strip
+  points: { time: number; value: number }[];
+  // The window with the most selected points and their share of the selection, null when
+  // nothing was selected
+  densest: (LoggingDataTimeRange & { share: number }) | null;
+};
+
+/**
+ * Finds the points whose value lies in the selected range, and when they occurred.
+ * @param points The analysed points in chronological order, a uniform sample of them for large ranges
+ * @param total The number of samples the points stand for
+ * @param timeRange The analysed time range
+ */
+export function selectValueRange(
+  points: SampledPoint[],
+  total: number,
+  from: number,
+  to: number,
+  timeRange: LoggingDataTimeRange,
+): RangeSelection {
+  const [lower, upper] = from <= to ? [from, to] : [to, from];
+  const selected = points.filter(
+    (point) => point.value >= lower && point.value <= upper,
+  );
+
+  const weightOf = (point: SampledPoint) => point.weight ?? 1;
+  const totalWeight = points.reduce((acc, point) => acc + weightOf(point), 0);
+  const selectedWeight = selected.reduce(
+    (acc, point) => acc + weightOf(point),
+    0,
+  );
+
+  return {
+    from: lower,
+    to: upper,
+    count: points.length
+      ? Math.round((selected.length / points.length) * total)
+      : 0,
+    share: totalWeight > 0 ? selectedWeight / totalWeight : 0,
+    points: thin(selected).map(({ time, value }) => ({ time, value })),
+    densest: findDensestWindow(
+      selected.map((point) => point.time),
+      (timeRange.to - timeRange.from) * CLUSTER_WINDOW_SHARE,
+      timeRange,
+    ),
+  };
+}
+
+/**
+ * Slides a window of the given length over the times and returns the position that holds the
+ * most of them, kept within the time range.
+ * @param times Times in chronological order
+ */
+function findDensestWindow(
+  times: number[],
+  length: number,
+  timeRange: LoggingDataTimeRange,
+) {
+  if (!times.length) {
+    return null;
+  }
+  let best = { start: 0, count: 0 };
+  let start = 0;
+  for (let end = 0; end < times.length; end++) {
+    while (times[end] - times[start] > length) {
+      start++;
+    }
+    if (end - start + 1 > best.count) {
+      best = { start, count: end - start + 1 };
+    }
+  }
+  const from = Math.max(
+    timeRange.from,
+    Math.min(times[best.start], timeRange.to - length),
+  );
+  return {
+    from,
+    to: Math.min(timeRange.to, from + length),
+    share: best.count / times.length,
+  };
+}
+
+function thin<T>(items: T[]) {
+  if (items.length <= MAX_STRIP_POINTS) {
+    return items;
+  }
+  const step = (items.length - 1) / (MAX_STRIP_POINTS - 1);
+  return Array.from(
+    { length: MAX_STRIP_POINTS },
+    (_, i) => items[Math.round(i * step)],
+  );
+}
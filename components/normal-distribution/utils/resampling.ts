@@ -0,0 +1,140 @@
+export type ResamplingMethod = 'hold' | 'mean' | 'min' | 'max' | 'last';
+
+export type ResamplingOptions = {
+  // 'fixed' resamples the raw points in the browser, 'server' lets DataList aggregate every step
+  mode?: 'none' | 'fixed' | 'server';
+  // Length of an interval in seconds
+  interval?: number | null;
+  method?: ResamplingMethod;
+};
+
+type Point = { time: number; value: number };
+
+// Number of points handed over at once, so long gaps do not build up one huge array
+const CHUNK_SIZE = 10000;
+
+export function isResampling(options: ResamplingOptions) {
+  return (
+    !!options.mode && options.mode !== 'none' && (options.interval ?? 0) > 0
+  );
+}
+
+/**
+ * Turns irregularly logged points into one point per fixed interval, so bursts of fast logging
+ * weigh as much as the quiet periods in between. Points are added in chronological order.
+ *
+ * Sample-and-hold takes the value that held at the start of every interval, also when nothing
+ * was logged in it. The other methods combine the points logged within an interval and skip
+ * intervals without points. Every resulting point is timed at the start of its interval.
+ */
+export class Resampler {
+  private nextTime: number;
+  private last: number | null = null;
+  // Interval of the points that are being combined and their running aggregate
+  private bucketStart: number | null = null;
+  private bucketValue = 0;
+  private bucketCount = 0;
+  private output: Point[] = [];
+
+  /**
+   * @param from Start of the first interval
+   * @param to End of the range, where the last interval stops
+   * @param onPoints Receives the resampled points in chronological order
+   */
+  constructor(
+    private method: ResamplingMethod,
+    private intervalMilliseconds: number,
+    private from: number,
+    private to: number,
+    private onPoints: (points: Point[]) => void,
+  ) {
+    this.nextTime = from;
+  }
+
+  add(points: Point[]) {
+    for (const point of points) {
+      if (this.method === 'hold') {
+        this.holdUntil(point.time);
+        this.last = point.value;
+      } else {
+        this.combine(point);
+      }
+    }
+    this.flush();
+  }
+
+  finish() {
+    if (this.method === 'hold') {
+      this.holdUntil(this.to);
+    } else {
+      this.emitBucket();
+    }
+    this.flush();
+  }
+
+  // Emits the held value for every interval that starts before `time`
+  private holdUntil(time: number) {
+    const end = Math.min(time, this.to);
+    for (; this.nextTime < end; this.nextTime += this.intervalMilliseconds) {
+      if (this.last !== null) {
+        this.push({ time: this.nextTime, value: this.last });
+      }
+    }
+  }
+
+  private combine({ time, value }: Point) {
+    if (time < this.from || time >= this.to) {
+      return;
+    }
+    const start =
+      this.from +
+      Math.floor((time - this.from) / this.intervalMilliseconds) *
+        this.intervalMilliseconds;
+    if (start !== this.bucketStart) {
+      this.emitBucket();
+      this.bucketStart = start;
+      this.bucketCount = 0;
+    }
+    if (this.bucketCount === 0) {
+      this.bucketValue = value;
+    } else if (this.method === 'mean') {
+      this.bucketValue += value;
+    } else if (this.method === 'min') {
+      this.bucketValue = Math.min(this.bucketValue, value);
+    } else if (this.method === 'max') {
+      this.bucketValue = Math.max(this.bucketValue, value);
+    } else {
+      this.bucketValue = value;
+    }
+    this.bucketCount++;
+  }
+
+  private emitBucket() {
+    if (this.bucketStart === null || !this.bucketCount) {
+      return;
+    }
+    this.push({
+      time: this.bucketStart,
+      value:
+        this.method === 'mean'
+          ? this.bucketValue / this.bucketCount
+          : this.bucketValue,
+    });
+    this.bucketCount = 0;
+  }
+
+  private push(point: Point) {
+    this.output.push(point);
+    if (this.output.length >= CHUNK_SIZE) {
+      this.flush();
+    }
+  }
+
+  private flush() {
+    if (this.output.length) {
+      const points = this.output;
+      this.output = [];
+      this.onPoints(points);
+    }
+  }
+}
@@ -0,0 +1,192 @@
+import { describe, expect, it } from 'vitest';
+import {
+  assessNormality,
+  bootstrapMeanInterval,
+  calculateCapabilityFromSummary,
+  calculateStatistics,
+  calculateWeightedStatistics,
+  fTestEqualVariances,
+  getZScoreForConfidence,
+  meanConfidenceInterval,
+  quantileSorted,
+  standardDeviationConfidenceInterval,
+  toleranceFactor,
+  weightedQuantileSorted,
+  welchTTest,
+} from './statistics';
+
+// Mean 5 and population standard deviation 2
+const VALUES = [2, 4, 4, 4, 5, 5, 7, 9];
+
+// First run of Michelson's 1879 speed of light measurements (km/s minus 299000)
+const MICHELSON = [
+  850, 740, 900, 1070, 930, 850, 950, 980, 980, 880, 1000, 980, 930, 650, 760,
+  810, 1000, 1000, 960, 960,
+].sort((a, b) => a - b);
+
+// Quantiles of the exponential distribution, clearly skewed
+const EXPONENTIAL = Array.from(
+  { length: 50 },
+  (_, i) => -Math.log(1 - (i + 0.5) / 50),
+);
+
+describe('calculateStatistics', () => {
+  it('returns the mean and population standard deviation', () => {
+    expect(
+      calculateStatistics(VALUES.map((value) => ({ time: 0, value }))),
+    ).toEqual({ mean: 5, standardDeviation: 2 });
+  });
+
+  it('weighs every value by its weight', () => {
+    const { mean, standardDeviation, totalWeight } =
+      calculateWeightedStatistics([1, 2, 3], [1, 2, 1]);
+    expect(mean).toBe(2);
+    expect(standardDeviation).toBeCloseTo(Math.SQRT1_2, 12);
+    expect(totalWeight).toBe(4);
+  });
+});
+
+describe('quantiles', () => {
+  it('interpolates between the sorted values', () => {
+    expect(quantileSorted(VALUES, 0.25)).toBe(4);
+    expect(quantileSorted(VALUES, 0.5)).toBe(4.5);
+    expect(quantileSorted(VALUES, 0.75)).toBe(5.5);
+    expect(quantileSorted([], 0.5)).toBeNaN();
+  });
+
+  it('takes the value where the cumulative weight reaches the share', () => {
+    expect(weightedQuantileSorted([1, 2, 3], [1, 2, 1], 0.5)).toBe(2);
+    expect(weightedQuantileSorted([1, 2, 3], [1, 2, 1], 0.8)).toBe(3);
+  });
+});
+
+describe('intervals', () => {
+  it('finds the z-score of a two-sided confidence level', () => {
+    expect(getZScoreForConfidence(95)).toBeCloseTo(1.959964, 6);
+    expect(getZScoreForConfidence(99)).toBeCloseTo(2.575829, 6);
+  });
+
+  it('finds the t-based confidence interval of the mean', () => {
+    // 5 ± t(0.975, 7) · s / √8 with t = 2.364624 and s = 2.138090
+    const [lower, upper] = meanConfidenceInterval(5, 2, VALUES.length, 95);
+    expect(lower).toBeCloseTo(3.212512, 5);
+    expect(upper).toBeCloseTo(6.787488, 5);
+  });
+
+  it('finds the chi-square confidence interval of the standard deviation', () => {
+    // √(7 s² / χ²) with χ²(0.975, 7) = 16.012764 and χ²(0.025, 7) = 1.689869
+    const [lower, upper] = standardDeviationConfidenceInterval(
+      2,
+      VALUES.length,
+      95,
+    );
+    expect(lower).toBeCloseTo(1.41365, 5);
+    expect(upper).toBeCloseTo(4.351595, 5);
+  });
+
+  it("finds Howe's tolerance factor", () => {
+    // 3.379 is the exact factor for n = 10 and 95% coverage at 95% confidence
+    expect(toleranceFactor(10, 95, 95)).toBeCloseTo(3.381913, 5);
+    expect(toleranceFactor(1, 95, 95)).toBeNaN();
+  });
+
+  it('returns the same bootstrap interval for the same data', () => {
+    const interval = bootstrapMeanInterval(VALUES, undefined, 95);
+    expect(interval).toEqual([3.75, 6.5]);
+    expect(bootstrapMeanInterval(VALUES, undefined, 95)).toEqual(interval);
+  });
+});
+
+describe('hypothesis tests', () => {
+  it("runs Welch's t-test on two summaries", () => {
+    const result = welchTTest(
+      { n: 10, mean: 10, variance: 4 },
+      { n: 10, mean: 12, variance: 4 },
+    );
+    expect(result?.statistic).toBeCloseTo(-Math.sqrt(5), 10);
+    expect(result?.degreesOfFreedom).toBeCloseTo(18, 10);
+    expect(result?.pValue).toBeCloseTo(0.03825, 5);
+  });
+
+  it('does not reject equal variances', () => {
+    const result = fTestEqualVariances(
+      { n: 10, mean: 0, variance: 4 },
+      { n: 10, mean: 0, variance: 4 },
+    );
+    expect(result?.statistic).toBe(1);
+    expect(result?.pValue).toBeCloseTo(1, 6);
+  });
+
+  it('needs two values on both sides', () => {
+    expect(
+      welchTTest(
+        { n: 1, mean: 0, variance: 0 },
+        { n: 10, mean: 0, variance: 1 },
+      ),
+    ).toBeNull();
+  });
+});
+
+describe('assessNormality', () => {
+  it("does not reject normality of Michelson's measurements", () => {
+    const assessment = assessNormality(MICHELSON);
+    expect(assessment?.shapiroWilk?.statistic).toBeCloseTo(0.9199, 4);
+    expect(assessment?.shapiroWilk?.pValue).toBeCloseTo(0.0988, 3);
+    expect(assessment?.andersonDarling?.statistic).toBeCloseTo(0.6724, 4);
+    expect(assessment?.kolmogorovSmirnov?.statistic).toBeCloseTo(0.1793, 4);
+    expect(assessment?.skewness).toBeCloseTo(-0.9646, 4);
+    expect(assessment?.isNormal).toBe(true);
+  });
+
+  it('rejects normality of exponential data', () => {
+    const assessment = assessNormality(EXPONENTIAL);
+    expect(assessment?.shapiroWilk?.statistic).toBeCloseTo(0.8376, 4);
+    expect(assessment?.andersonDarling?.pValue).toBeLessThan(0.001);
+    expect(assessment?.kolmogorovSmirnov?.pValue).toBeLessThan(0.01);
+    expect(assessment?.isNormal).toBe(false);
+  });
+
+  it('needs three different values', () => {
+    expect(assessNormality([1, 2])).toBeNull();
+    expect(assessNormality([3, 3, 3])).toBeNull();
+  });
+});
+
+describe('calculateCapabilityFromSummary', () => {
+  it('finds the indices of a centered process at ±3σ', () => {
+    const capability = calculateCapabilityFromSummary(
+      {
+        n: 5,
+        mean: 10,
+        overallStandardDeviation: 1,
+        // Average moving range of d2 = 1.128 gives a within standard deviation of 1
+        movingRangeSum: 4 * 1.128,
+        outOfSpecification: 1,
+      },
+      { lsl: 7, usl: 13, target: 10 },
+    );
+    expect(capability?.cp).toBeCloseTo(1, 10);
+    expect(capability?.cpk).toBeCloseTo(1, 10);
+    expect(capability?.pp).toBe(1);
+    expect(capability?.ppk).toBe(1);
+    expect(capability?.cpm).toBe(1);
+    // Two tails beyond 3σ
+    expect(capability?.expectedPpm).toBeCloseTo(2699.796, 3);
+    expect(capability?.observedPpm).toBe(200000);
+  });
+
+  it('needs a specification limit', () => {
+    expect(
+      calculateCapabilityFromSummary(
+        {
+          n: 5,
+          mean: 10,
+          overallStandardDeviation: 1,
+          movingRangeSum: 4,
+          outOfSpecification: 0,
+        },
+        {},
+      ),
+    ).toBeNull();
+  });
+});
@@ -14,39 +14,25 @@ export function generateNormalDistributionData(
   mean: number,
   standardDeviation: number,
   dataLength: number,
-  binSize: number,
-  maxY: number // This is the maximum Y value from your histogram data
+  binWidth: number, // Width of the histogram bins the curve is drawn over
+  points = 200
 ) {
-  if (dataLength <= 1) {
+  if (!(dataLength > 0) || !(standardDeviation > 0)) {
     return [];
   }
 
-  const xValues = [];
-  const yValues = [];
-  let maxYDistrib = 0; // To find the maximum Y value of the normal distribution
+  const xMin = mean - 5 * standardDeviation;
+  const step = (10 * standardDeviation) / (points - 1);
 
-  for (
-    let x = mean - 5 * standardDeviation;
-    x <= mean + 5 * standardDeviation;
-    x += binSize
-  ) {
-    xValues.push(x);
-
-    const y =
-      normalDistribution(x, mean, standardDeviation) * dataLength * binSize;
-    yValues.push(y);
-
-    if (y > maxYDistrib) {
-      maxYDistrib = y; // Update the maximum Y value of the normal distribution
-    }
-  }
-
-  // Scale the distribution so it doesn't exceed the maximum Y value of the histogram
-  const scaleRatio = maxY / maxYDistrib;
-  const scaledYValues = yValues.map((y) => y * scaleRatio);
-
-  // Combine the x and y values into a single array of [x, y] pairs
-  return xValues.map((x, i) => [x, scaledYValues[i]]);
+  // Expected count per bin: the density multiplied by the number of samples and the bin width,
+  // so the curve describes the same scale as the histogram bars
+  return Array.from({ length: points }, (_, i) => {
+    const x = xMin + i * step;
+    return [
+      x,
+      normalDistribution(x, mean, standardDeviation) * dataLength * binWidth,
+    ];
+  });
 }
 
 function normalDistribution(
@@ -60,6 +46,64 @@ function normalDistribution(
   );
 }
 
+/**
+ * Linearly interpolated quantile of an ascending sorted array.
+ */
+export function quantileSorted(values: number[], p: number) {
+  if (!values.length) {
+    return NaN;
+  }
+  const position = (values.length - 1) * p;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return values[lower] + (values[upper] - values[lower]) * (position - lower);
+}
+
+/**
+ * Quantile of an ascending sorted array where every value counts with its weight.
+ * Falls back to the unweighted quantile when no weights are given.
+ */
+export function weightedQuantileSorted(
+  values: number[],
+  weights: number[] | undefined,
+  p: number
+) {
+  if (!weights) {
+    return quantileSorted(values, p);
+  }
+  const total = weights.reduce((acc, w) => acc + w, 0);
+  let cumulative = 0;
+  for (let i = 0; i < values.length; i++) {
+    cumulative += weights[i];
+    if (cumulative >= p * total) {
+      return values[i];
+    }
+  }
+  return values[values.length - 1];
+}
+
+/**
+ * Mean and population standard deviation where every value counts for its weight,
+ * e.g. the duration a value was held.
+ */
+export function calculateWeightedStatistics(
+  values: number[],
+  weights: number[]
+) {
+  const totalWeight = weights.reduce((acc, w) => acc + w, 0);
+  if (!(totalWeight > 0)) {
+    return { mean: 0, standardDeviation: 0, totalWeight: 0 };
+  }
+  const mean =
+    values.reduce((acc, v, i) => acc + weights[i] * v, 0) / totalWeight;
+  const variance =
+    values.reduce((acc, v, i) => acc + weights[i] * Math.pow(v - mean, 2), 0) /
+    totalWeight;
+  const standardDeviation = Math.sqrt(variance);
+
+  return { mean, standardDeviation, totalWeight };
+}
+
 export function getZScoreForConfidence(confidence: number): number {
   // Convert confidence to two-tailed probability
   const alpha = 1 - confidence / 100;
@@ -80,3 +124,628 @@ export function getConfidenceInterval(
 ) {
   return [mean - zScore * standardDeviation, mean + zScore * standardDeviation];
 }
+
+/**
+ * Confidence interval of the mean based on Student's t distribution, which widens for small
+ * samples where mean ± z·σ/√n would be too narrow.
+ * @param standardDeviation Population standard deviation, corrected to the sample standard deviation here
+ */
+export function meanConfidenceInterval(
+  mean: number,
+  standardDeviation: number,
+  n: number,
+  confidence: number
+): [number, number] {
+  if (n < 2) {
+    return [NaN, NaN];
+  }
+  const alpha = 1 - confidence / 100;
+  const sampleStandardDeviation = standardDeviation * Math.sqrt(n / (n - 1));
+  const margin =
+    (jStat.studentt.inv(1 - alpha / 2, n - 1) * sampleStandardDeviation) /
+    Math.sqrt(n);
+  return [mean - margin, mean + margin];
+}
+
+/**
+ * Confidence interval of the standard deviation from the chi-square distribution of the
+ * sample variance. Only holds for normal data.
+ * @param standardDeviation Population standard deviation, corrected to the sample standard deviation here
+ */
+export function standardDeviationConfidenceInterval(
+  standardDeviation: number,
+  n: number,
+  confidence: number
+): [number, number] {
+  if (n < 2) {
+    return [NaN, NaN];
+  }
+  const alpha = 1 - confidence / 100;
+  // (n - 1)·s² equals n·σ² for the population standard deviation σ
+  const sumOfSquares = n * standardDeviation * standardDeviation;
+  return [
+    Math.sqrt(sumOfSquares / jStat.chisquare.inv(1 - alpha / 2, n - 1)),
+    Math.sqrt(sumOfSquares / jStat.chisquare.inv(alpha / 2, n - 1)),
+  ];
+}
+
+/**
+ * Howe's k-factor of a two-sided normal tolerance interval: mean ± k·s contains at least
+ * `coverage` percent of the population with `confidence` percent confidence.
+ */
+export function toleranceFactor(
+  n: number,
+  coverage: number,
+  confidence: number
+) {
+  if (n < 2) {
+    return NaN;
+  }
+  const z = jStat.normal.inv((1 + coverage / 100) / 2, 0, 1);
+  const chiSquare = jStat.chisquare.inv(1 - confidence / 100, n - 1);
+  return z * Math.sqrt(((n - 1) * (1 + 1 / n)) / chiSquare);
+}
+
+/**
+ * Two-sided normal tolerance interval, which unlike mean ± z·σ accounts for the uncertainty
+ * of the mean and standard deviation estimated from `n` samples.
+ * @param standardDeviation Population standard deviation, corrected to the sample standard deviation here
+ */
+export function toleranceInterval(
+  mean: number,
+  standardDeviation: number,
+  n: number,
+  coverage: number,
+  confidence: number
+): [number, number] {
+  const k = toleranceFactor(n, coverage, confidence);
+  const sampleStandardDeviation = standardDeviation * Math.sqrt(n / (n - 1));
+  return [
+    mean - k * sampleStandardDeviation,
+    mean + k * sampleStandardDeviation,
+  ];
+}
+
+/**
+ * Percentile bootstrap confidence interval of the mean. Every resample draws as many values
+ * as the sample holds, with replacement and in proportion to their weights when given.
+ * The generator is seeded, so the same data gives the same interval on every refresh.
+ */
+export function bootstrapMeanInterval(
+  values: number[],
+  weights: number[] | undefined,
+  confidence: number,
+  resamples = 1000,
+  seed = 1
+): [number, number] {
+  const n = values.length;
+  if (!n) {
+    return [NaN, NaN];
+  }
+  const random = createRandom(seed);
+  const cumulative = weights ? cumulativeSum(weights) : null;
+  const total = cumulative ? cumulative[n - 1] : n;
+  const means: number[] = [];
+  for (let r = 0; r < resamples; r++) {
+    let sum = 0;
+    for (let i = 0; i < n; i++) {
+      const index = cumulative
+        ? searchCumulative(cumulative, random() * total)
+        : Math.floor(random() * n);
+      sum += values[index];
+    }
+    means.push(sum / n);
+  }
+  means.sort((a, b) => a - b);
+  const alpha = 1 - confidence / 100;
+  return [
+    quantileSorted(means, alpha / 2),
+    quantileSorted(means, 1 - alpha / 2),
+  ];
+}
+
+function cumulativeSum(weights: number[]) {
+  let sum = 0;
+  return weights.map((weight) => (sum += weight));
+}
+
+// Index of the first cumulative weight above `target`
+function searchCumulative(cumulative: number[], target: number) {
+  let low = 0;
+  let high = cumulative.length - 1;
+  while (low < high) {
+    const middle = (low + high) >> 1;
+    if (cumulative[middle] <= target) {
+      low = middle + 1;
+    } else {
+      high = middle;
+    }
+  }
+  return low;
+}
+
+// Mulberry32, a small seeded generator with a uniform output in [0, 1)
+function createRandom(seed: number) {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export type SpecificationLimits = {
+  lsl?: number | null;
+  usl?: number | null;
+  target?: number | null;
+};
+
+export type CapabilityIndices = {
+  cp: number | null;
+  cpk: number | null;
+  pp: number | null;
+  ppk: number | null;
+  cpm: number | null;
+  expectedPpm: number;
+  observedPpm: number;
+  withinStandardDeviation: number;
+  overallStandardDeviation: number;
+};
+
+// What the capability indices need to know about the values, so they can also be computed
+// while the data streams in
+export type CapabilitySummary = {
+  n: number;
+  mean: number;
+  overallStandardDeviation: number; // Sample standard deviation
+  movingRangeSum: number; // Sum of the absolute differences between consecutive values
+  outOfSpecification: number;
+};
+
+// d2 constant for moving ranges of two consecutive observations
+const D2_MOVING_RANGE = 1.128;
+
+export function hasSpecificationLimits(limits?: SpecificationLimits) {
+  return isFiniteNumber(limits?.lsl) || isFiniteNumber(limits?.usl);
+}
+
+export function calculateCapabilityFromSummary(
+  {
+    n,
+    mean,
+    overallStandardDeviation,
+    movingRangeSum,
+    outOfSpecification,
+  }: CapabilitySummary,
+  limits: SpecificationLimits
+): CapabilityIndices | null {
+  if (n < 2 || !hasSpecificationLimits(limits)) {
+    return null;
+  }
+
+  const lsl = isFiniteNumber(limits.lsl) ? limits.lsl : null;
+  const usl = isFiniteNumber(limits.usl) ? limits.usl : null;
+  const target = isFiniteNumber(limits.target) ? limits.target : null;
+
+  // Within (short term) variation is estimated from the average moving range of the values
+  // in chronological order, overall (long term) variation is the sample standard deviation
+  const withinStandardDeviation = movingRangeSum / (n - 1) / D2_MOVING_RANGE;
+
+  const potential = capabilityIndex(mean, withinStandardDeviation, lsl, usl);
+  const performance = capabilityIndex(mean, overallStandardDeviation, lsl, usl);
+
+  let cpm: number | null = null;
+  if (lsl !== null && usl !== null && target !== null) {
+    const tau = Math.sqrt(
+      Math.pow(overallStandardDeviation, 2) + Math.pow(mean - target, 2)
+    );
+    cpm = tau > 0 ? (usl - lsl) / (6 * tau) : null;
+  }
+
+  let expectedPpm = 0;
+  if (overallStandardDeviation > 0) {
+    if (lsl !== null) {
+      expectedPpm += jStat.normal.cdf(lsl, mean, overallStandardDeviation);
+    }
+    if (usl !== null) {
+      expectedPpm += 1 - jStat.normal.cdf(usl, mean, overallStandardDeviation);
+    }
+    expectedPpm *= 1e6;
+  }
+
+  const observedPpm = (outOfSpecification / n) * 1e6;
+
+  return {
+    cp: potential.c,
+    cpk: potential.ck,
+    pp: performance.c,
+    ppk: performance.ck,
+    cpm,
+    expectedPpm,
+    observedPpm,
+    withinStandardDeviation,
+    overallStandardDeviation,
+  };
+}
+
+export function isOutOfSpecification(
+  value: number,
+  limits: SpecificationLimits
+) {
+  return (
+    (isFiniteNumber(limits.lsl) && value < limits.lsl) ||
+    (isFiniteNumber(limits.usl) && value > limits.usl)
+  );
+}
+
+function capabilityIndex(
+  mean: number,
+  standardDeviation: number,
+  lsl: number | null,
+  usl: number | null
+) {
+  if (!(standardDeviation > 0)) {
+    return { c: null, ck: null };
+  }
+
+  const c =
+    lsl !== null && usl !== null ? (usl - lsl) / (6 * standardDeviation) : null;
+  const lower = lsl !== null ? (mean - lsl) / (3 * standardDeviation) : null;
+  const upper = usl !== null ? (usl - mean) / (3 * standardDeviation) : null;
+
+  // With a single limit the one-sided index is the only one available
+  let ck: number | null;
+  if (lower !== null && upper !== null) {
+    ck = Math.min(lower, upper);
+  } else {
+    ck = lower ?? upper;
+  }
+
+  return { c, ck };
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value);
+}
+
+export type HypothesisTestResult = {
+  statistic: number;
+  pValue: number;
+};
+
+export type NormalityTestResult = HypothesisTestResult;
+
+export type NormalityAssessment = {
+  skewness: number | null;
+  excessKurtosis: number | null;
+  andersonDarling: NormalityTestResult | null;
+  shapiroWilk: NormalityTestResult | null;
+  kolmogorovSmirnov: NormalityTestResult | null;
+  alpha: number;
+  isNormal: boolean;
+};
+
+// Royston's approximation of the Shapiro–Wilk test is valid up to this sample size
+const SHAPIRO_WILK_MAX_N = 5000;
+
+/**
+ * Runs the normality tests on the values and combines them into a single verdict.
+ * The data is considered normal when none of the available tests rejects normality at `alpha`.
+ * @param values Values sorted in ascending order
+ */
+export function assessNormality(
+  values: number[],
+  alpha = 0.05
+): NormalityAssessment | null {
+  const n = values.length;
+  if (n < 3) {
+    return null;
+  }
+
+  const mean = values.reduce((acc, v) => acc + v, 0) / n;
+  const sampleStandardDeviation = Math.sqrt(
+    values.reduce((acc, v) => acc + Math.pow(v - mean, 2), 0) / (n - 1)
+  );
+  if (!(sampleStandardDeviation > 0)) {
+    return null;
+  }
+
+  const { skewness, excessKurtosis } = calculateShapeStatistics(values);
+  const andersonDarling = andersonDarlingTest(
+    values,
+    mean,
+    sampleStandardDeviation
+  );
+  const shapiroWilk = n <= SHAPIRO_WILK_MAX_N ? shapiroWilkTest(values) : null;
+  const kolmogorovSmirnov = lillieforsTest(
+    values,
+    mean,
+    sampleStandardDeviation
+  );
+
+  const isNormal = [andersonDarling, shapiroWilk, kolmogorovSmirnov].every(
+    (test) => !test || test.pValue >= alpha
+  );
+
+  return {
+    skewness,
+    excessKurtosis,
+    andersonDarling,
+    shapiroWilk,
+    kolmogorovSmirnov,
+    alpha,
+    isNormal,
+  };
+}
+
+/**
+ * Bias corrected sample skewness (G1) and excess kurtosis (G2), as reported by Excel and Minitab.
+ */
+export function calculateShapeStatistics(values: number[]) {
+  const n = values.length;
+  const mean = values.reduce((acc, v) => acc + v, 0) / n;
+  let m2 = 0;
+  let m3 = 0;
+  let m4 = 0;
+  for (const v of values) {
+    const d = v - mean;
+    m2 += d * d;
+    m3 += d * d * d;
+    m4 += d * d * d * d;
+  }
+  m2 /= n;
+  m3 /= n;
+  m4 /= n;
+
+  if (!(m2 > 0)) {
+    return { skewness: null, excessKurtosis: null };
+  }
+
+  const g1 = m3 / Math.pow(m2, 1.5);
+  const g2 = m4 / (m2 * m2) - 3;
+  const skewness = n > 2 ? (g1 * Math.sqrt(n * (n - 1))) / (n - 2) : null;
+  const excessKurtosis =
+    n > 3 ? (((n + 1) * g2 + 6) * (n - 1)) / ((n - 2) * (n - 3)) : null;
+
+  return { skewness, excessKurtosis };
+}
+
+/**
+ * Anderson–Darling test with estimated mean and standard deviation.
+ * The p-value uses the approximation of D'Agostino and Stephens (1986).
+ */
+function andersonDarlingTest(
+  values: number[],
+  mean: number,
+  standardDeviation: number
+): NormalityTestResult {
+  const n = values.length;
+  const cdf = values.map((v) =>
+    clampProbability(standardNormalCDF((v - mean) / standardDeviation))
+  );
+
+  let sum = 0;
+  for (let i = 0; i < n; i++) {
+    sum += (2 * i + 1) * (Math.log(cdf[i]) + Math.log(1 - cdf[n - 1 - i]));
+  }
+  const a2 = -n - sum / n;
+  const adjusted = a2 * (1 + 0.75 / n + 2.25 / (n * n));
+
+  let pValue: number;
+  if (adjusted >= 0.6) {
+    pValue = Math.exp(1.2937 - 5.709 * adjusted + 0.0186 * adjusted * adjusted);
+  } else if (adjusted >= 0.34) {
+    pValue = Math.exp(0.9177 - 4.279 * adjusted - 1.38 * adjusted * adjusted);
+  } else if (adjusted >= 0.2) {
+    pValue =
+      1 - Math.exp(-8.318 + 42.796 * adjusted - 59.938 * adjusted * adjusted);
+  } else {
+    pValue =
+      1 - Math.exp(-13.436 + 101.14 * adjusted - 223.73 * adjusted * adjusted);
+  }
+
+  return { statistic: a2, pValue: clamp(pValue, 0, 1) };
+}
+
+/**
+ * Shapiro–Wilk W test using Royston's (1992) approximation of the coefficients and p-value.
+ */
+function shapiroWilkTest(values: number[]): NormalityTestResult {
+  const n = values.length;
+  const mean = values.reduce((acc, v) => acc + v, 0) / n;
+  const ssq = values.reduce((acc, v) => acc + Math.pow(v - mean, 2), 0);
+
+  const a = new Array<number>(n).fill(0);
+  if (n === 3) {
+    a[0] = -Math.SQRT1_2;
+    a[2] = Math.SQRT1_2;
+  } else {
+    const m = Array.from({ length: n }, (_, i) =>
+      inverseStandardNormalCDF((i + 1 - 0.375) / (n + 0.25))
+    );
+    const mm = m.reduce((acc, v) => acc + v * v, 0);
+    const u = 1 / Math.sqrt(n);
+
+    const an =
+      m[n - 1] / Math.sqrt(mm) +
+      polynomial(u, [0, 0.221157, -0.147981, -2.07119, 4.434685, -2.706056]);
+    a[n - 1] = an;
+    a[0] = -an;
+
+    if (n > 5) {
+      const an1 =
+        m[n - 2] / Math.sqrt(mm) +
+        polynomial(u, [0, 0.042981, -0.293762, -1.752461, 5.682633, -3.582633]);
+      a[n - 2] = an1;
+      a[1] = -an1;
+      const phi =
+        (mm - 2 * m[n - 1] * m[n - 1] - 2 * m[n - 2] * m[n - 2]) /
+        (1 - 2 * an * an - 2 * an1 * an1);
+      for (let i = 2; i < n - 2; i++) {
+        a[i] = m[i] / Math.sqrt(phi);
+      }
+    } else {
+      const phi = (mm - 2 * m[n - 1] * m[n - 1]) / (1 - 2 * an * an);
+      for (let i = 1; i < n - 1; i++) {
+        a[i] = m[i] / Math.sqrt(phi);
+      }
+    }
+  }
+
+  const numerator = values.reduce((acc, v, i) => acc + a[i] * v, 0);
+  const w = Math.min(1, (numerator * numerator) / ssq);
+
+  let pValue: number;
+  if (n === 3) {
+    pValue =
+      (6 / Math.PI) * (Math.asin(Math.sqrt(w)) - Math.asin(Math.sqrt(0.75)));
+  } else if (n <= 11) {
+    const gamma = -2.273 + 0.459 * n;
+    const mu = polynomial(n, [0.544, -0.39978, 0.025054, -0.0006714]);
+    const sigma = Math.exp(
+      polynomial(n, [1.3822, -0.77857, 0.062767, -0.0020322])
+    );
+    const z = (-Math.log(gamma - Math.log(1 - w)) - mu) / sigma;
+    pValue = 1 - standardNormalCDF(z);
+  } else {
+    const ln = Math.log(n);
+    const mu = polynomial(ln, [-1.5861, -0.31082, -0.083751, 0.0038915]);
+    const sigma = Math.exp(polynomial(ln, [-0.4803, -0.082676, 0.0030302]));
+    const z = (Math.log(1 - w) - mu) / sigma;
+    pValue = 1 - standardNormalCDF(z);
+  }
+
+  return { statistic: w, pValue: clamp(pValue, 0, 1) };
+}
+
+/**
+ * Kolmogorov–Smirnov test with estimated mean and standard deviation (Lilliefors test).
+ * The p-value uses the approximation of Dallal and Wilkinson (1986).
+ */
+function lillieforsTest(
+  values: number[],
+  mean: number,
+  standardDeviation: number
+): NormalityTestResult {
+  const n = values.length;
+  let d = 0;
+  for (let i = 0; i < n; i++) {
+    const cdf = standardNormalCDF((values[i] - mean) / standardDeviation);
+    d = Math.max(d, (i + 1) / n - cdf, cdf - i / n);
+  }
+
+  const kd = n <= 100 ? d : d * Math.pow(n / 100, 0.49);
+  const nd = Math.min(n, 100);
+  let pValue = Math.exp(
+    -7.01256 * kd * kd * (nd + 2.78019) +
+      2.99587 * kd * Math.sqrt(nd + 2.78019) -
+      0.122119 +
+      0.974598 / Math.sqrt(nd) +
+      1.67997 / nd
+  );
+
+  if (pValue > 0.1) {
+    const kk = (Math.sqrt(n) - 0.01 + 0.85 / Math.sqrt(n)) * d;
+    if (kk <= 0.302) {
+      pValue = 1;
+    } else if (kk <= 0.5) {
+      pValue = polynomial(
+        kk,
+        [2.76773, -19.828315, 80.709644, -138.55152, 81.218052]
+      );
+    } else if (kk <= 0.9) {
+      pValue = polynomial(
+        kk,
+        [-4.901232, 40.662806, -97.490286, 94.029866, -32.355711]
+      );
+    } else if (kk <= 1.31) {
+      pValue = polynomial(
+        kk,
+        [6.198765, -19.558097, 23.186922, -12.234627, 2.423045]
+      );
+    } else {
+      pValue = 0;
+    }
+  }
+
+  return { statistic: d, pValue: clamp(pValue, 0, 1) };
+}
+
+function standardNormalCDF(z: number) {
+  return jStat.normal.cdf(z, 0, 1);
+}
+
+// Evaluates c[0] + c[1]·x + c[2]·x² + ...
+function polynomial(x: number, coefficients: number[]) {
+  return coefficients.reduceRight((acc, c) => acc * x + c, 0);
+}
+
+function clamp(value: number, min: number, max: number) {
+  return Math.min(max, Math.max(min, value));
+}
+
+// Keeps the logarithms in the Anderson–Darling statistic finite for extreme values
+function clampProbability(p: number) {
+  return clamp(p, 1e-15, 1 - 1e-15);
+}
+
+export type SampleSummary = {
+  n: number;
+  mean: number;
+  variance: number; // Sample variance (n - 1 in the denominator)
+};
+
+export function summarizeSample(values: number[]): SampleSummary {
+  const n = values.length;
+  const mean = values.reduce((acc, v) => acc + v, 0) / n;
+  const variance =
+    n > 1
+      ? values.reduce((acc, v) => acc + Math.pow(v - mean, 2), 0) / (n - 1)
+      : 0;
+  return { n, mean, variance };
+}
+
+/**
+ * Welch's t-test for the difference between two means without assuming equal variances.
+ */
+export function welchTTest(
+  a: SampleSummary,
+  b: SampleSummary
+): (HypothesisTestResult & { degreesOfFreedom: number }) | null {
+  if (a.n < 2 || b.n < 2) {
+    return null;
+  }
+  const va = a.variance / a.n;
+  const vb = b.variance / b.n;
+  if (!(va + vb > 0)) {
+    return null;
+  }
+
+  const t = (a.mean - b.mean) / Math.sqrt(va + vb);
+  const degreesOfFreedom =
+    Math.pow(va + vb, 2) /
+    (Math.pow(va, 2) / (a.n - 1) + Math.pow(vb, 2) / (b.n - 1));
+  const pValue = 2 * (1 - jStat.studentt.cdf(Math.abs(t), degreesOfFreedom));
+
+  return { statistic: t, pValue: clamp(pValue, 0, 1), degreesOfFreedom };
+}
+
+/**
+ * Two-sided F-test for the equality of two variances.
+ */
+export function fTestEqualVariances(
+  a: SampleSummary,
+  b: SampleSummary
+): HypothesisTestResult | null {
+  if (a.n < 2 || b.n < 2 || !(a.variance > 0) || !(b.variance > 0)) {
+    return null;
+  }
+
+  const f = a.variance / b.variance;
+  const cdf = jStat.centralF.cdf(f, a.n - 1, b.n - 1);
+  const pValue = 2 * Math.min(cdf, 1 - cdf);
+
+  return { statistic: f, pValue: clamp(pValue, 0, 1) };
+}
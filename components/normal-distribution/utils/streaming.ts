@@ -0,0 +1,683 @@
+import {
+  resolveBinWidth,
+  type Bin,
+  type BinningOptions,
+  type Histogram,
+} from './binning';
+import {
+  isOutOfSpecification,
+  quantileSorted,
+  type CapabilitySummary,
+  type SampleSummary,
+  type SpecificationLimits,
+} from './statistics';
+import type { DurationUnit } from './time-weighting';
+import type { ExclusionCounts, ExclusionReason, ValueFilter } from './outliers';
+import type { Gate } from './gate';
+
+/**
+ * Mean and variance that are updated one value at a time (Welford's algorithm),
+ * optionally with a weight per value.
+ */
+export class RunningStatistics {
+  count = 0;
+  totalWeight = 0;
+  mean = 0;
+  min = Infinity;
+  max = -Infinity;
+  private m2 = 0;
+
+  add(value: number, weight = 1) {
+    this.count++;
+    this.min = Math.min(this.min, value);
+    this.max = Math.max(this.max, value);
+    if (!(weight > 0)) {
+      return;
+    }
+    this.totalWeight += weight;
+    const delta = value - this.mean;
+    this.mean += (weight / this.totalWeight) * delta;
+    this.m2 += weight * delta * (value - this.mean);
+  }
+
+  /**
+   * Combines both statistics into a new one, as if all values were added to it.
+   */
+  merge(other: RunningStatistics) {
+    const merged = new RunningStatistics();
+    merged.count = this.count + other.count;
+    merged.totalWeight = this.totalWeight + other.totalWeight;
+    merged.min = Math.min(this.min, other.min);
+    merged.max = Math.max(this.max, other.max);
+    if (merged.totalWeight > 0) {
+      const delta = other.mean - this.mean;
+      merged.mean =
+        this.mean + (delta * other.totalWeight) / merged.totalWeight;
+      merged.m2 =
+        this.m2 +
+        other.m2 +
+        (delta * delta * this.totalWeight * other.totalWeight) /
+          merged.totalWeight;
+    }
+    return merged;
+  }
+
+  // Population variance, every value counting for its weight
+  get variance() {
+    return this.totalWeight > 0 ? this.m2 / this.totalWeight : 0;
+  }
+
+  // Sample variance (n - 1 in the denominator), only meaningful when the weights count samples
+  get sampleVariance() {
+    return this.totalWeight > 1 ? this.m2 / (this.totalWeight - 1) : 0;
+  }
+}
+
+// Number of values collected before they are merged into the centroids
+const DIGEST_BUFFER_SIZE = 2000;
+
+/**
+ * Merging t-digest: estimates quantiles from a bounded number of centroids, which are
+ * small near the tails and larger near the median.
+ */
+export class TDigest {
+  private means: number[] = [];
+  private weights: number[] = [];
+  private buffer: { value: number; weight: number }[] = [];
+  private totalWeight = 0;
+  private min = Infinity;
+  private max = -Infinity;
+
+  constructor(private compression = 200) {}
+
+  add(value: number, weight = 1) {
+    if (!(weight > 0)) {
+      return;
+    }
+    this.buffer.push({ value, weight });
+    this.totalWeight += weight;
+    this.min = Math.min(this.min, value);
+    this.max = Math.max(this.max, value);
+    if (this.buffer.length >= DIGEST_BUFFER_SIZE) {
+      this.compress();
+    }
+  }
+
+  clone() {
+    this.compress();
+    const digest = new TDigest(this.compression);
+    digest.means = [...this.means];
+    digest.weights = [...this.weights];
+    digest.totalWeight = this.totalWeight;
+    digest.min = this.min;
+    digest.max = this.max;
+    return digest;
+  }
+
+  quantile(p: number) {
+    this.compress();
+    const n = this.means.length;
+    if (!n) {
+      return NaN;
+    }
+    const target = Math.min(1, Math.max(0, p)) * this.totalWeight;
+
+    // Every centroid is centered on its cumulative weight, interpolate between the centers
+    let cumulative = 0;
+    for (let i = 0; i < n; i++) {
+      const center = cumulative + this.weights[i] / 2;
+      if (target < center) {
+        if (i === 0) {
+          return this.min + ((this.means[0] - this.min) * target) / center;
+        }
+        const previousCenter = cumulative - this.weights[i - 1] / 2;
+        return (
+          this.means[i - 1] +
+          ((this.means[i] - this.means[i - 1]) * (target - previousCenter)) /
+            (center - previousCenter)
+        );
+      }
+      cumulative += this.weights[i];
+    }
+
+    const lastCenter = this.totalWeight - this.weights[n - 1] / 2;
+    return (
+      this.means[n - 1] +
+      ((this.max - this.means[n - 1]) * (target - lastCenter)) /
+        (this.totalWeight - lastCenter)
+    );
+  }
+
+  private compress() {
+    if (!this.buffer.length) {
+      return;
+    }
+    const points = [
+      ...this.means.map((value, i) => ({ value, weight: this.weights[i] })),
+      ...this.buffer,
+    ].sort((a, b) => a.value - b.value);
+    this.buffer = [];
+    this.means = [];
+    this.weights = [];
+
+    let cumulative = 0;
+    let limit = this.totalWeight * this.inverseScale(this.scale(0) + 1);
+    let { value: mean, weight } = points[0];
+    for (let i = 1; i < points.length; i++) {
+      const point = points[i];
+      if (cumulative + weight + point.weight <= limit) {
+        weight += point.weight;
+        mean += ((point.value - mean) * point.weight) / weight;
+        continue;
+      }
+      this.means.push(mean);
+      this.weights.push(weight);
+      cumulative += weight;
+      limit =
+        this.totalWeight *
+        this.inverseScale(this.scale(cumulative / this.totalWeight) + 1);
+      ({ value: mean, weight } = point);
+    }
+    this.means.push(mean);
+    this.weights.push(weight);
+  }
+
+  // Scale function k1, which keeps the centroids near the tails small
+  private scale(q: number) {
+    return (this.compression / (2 * Math.PI)) * Math.asin(2 * q - 1);
+  }
+
+  private inverseScale(k: number) {
+    const angle = (2 * Math.PI * k) / this.compression;
+    return angle >= Math.PI / 2 ? 1 : (Math.sin(angle) + 1) / 2;
+  }
+}
+
+/**
+ * Histogram with fine bins on a fixed grid. When the values span more than `maxBins`
+ * bins, the bin width is doubled by merging neighbouring bins.
+ */
+export class OnlineHistogram {
+  binWidth: number;
+  private counts = new Map<number, number>();
+  private origin: number | null = null;
+  private minIndex = Infinity;
+  private maxIndex = -Infinity;
+
+  /**
+   * @param resolution Smallest step between values, used as the initial bin width
+   */
+  constructor(
+    private resolution: number,
+    private maxBins = 16384,
+  ) {
+    this.binWidth = resolution > 0 ? resolution : 1;
+  }
+
+  add(value: number, weight = 1) {
+    if (this.origin === null) {
+      // Offset by half the resolution so rounded values end up in the middle of a bin
+      this.origin = value - this.resolution / 2;
+    }
+    const index = Math.floor((value - this.origin) / this.binWidth);
+    this.counts.set(index, (this.counts.get(index) ?? 0) + weight);
+    this.minIndex = Math.min(this.minIndex, index);
+    this.maxIndex = Math.max(this.maxIndex, index);
+
+    while (this.maxIndex - this.minIndex + 1 > this.maxBins) {
+      this.coarsen();
+    }
+  }
+
+  /**
+   * Merges the fine bins into bins of (at least) the given width, covering `min` to `max`.
+   * The width is rounded up to a multiple of the fine bin width so the edges line up.
+   */
+  toHistogram(width: number, min: number, max: number): Histogram {
+    if (this.origin === null) {
+      return { bins: [], binWidth: 0 };
+    }
+    const multiple = Math.max(1, Math.ceil(width / this.binWidth - 1e-9));
+    const binWidth = multiple * this.binWidth;
+    const firstIndex = Math.min(
+      this.minIndex,
+      Math.floor((min - this.origin) / this.binWidth),
+    );
+    const lastIndex = Math.max(
+      this.maxIndex,
+      Math.floor((max - this.origin) / this.binWidth),
+    );
+    const start = this.origin + firstIndex * this.binWidth;
+    const count = Math.floor((lastIndex - firstIndex) / multiple) + 1;
+
+    const bins: Bin[] = Array.from({ length: count }, (_, i) => ({
+      start: start + i * binWidth,
+      end: start + (i + 1) * binWidth,
+      count: 0,
+    }));
+    this.counts.forEach((weight, index) => {
+      bins[Math.floor((index - firstIndex) / multiple)].count += weight;
+    });
+
+    return { bins, binWidth };
+  }
+
+  private coarsen() {
+    const counts = new Map<number, number>();
+    this.counts.forEach((weight, index) => {
+      const merged = Math.floor(index / 2);
+      counts.set(merged, (counts.get(merged) ?? 0) + weight);
+    });
+    this.counts = counts;
+    this.binWidth *= 2;
+    this.minIndex = Math.floor(this.minIndex / 2);
+    this.maxIndex = Math.floor(this.maxIndex / 2);
+  }
+}
+
+/**
+ * Uniform random sample of a stream of unknown length (reservoir sampling).
+ * Holds every item as long as no more than `size` items were added.
+ */
+export class ReservoirSample<T> {
+  items: T[] = [];
+  seen = 0;
+
+  constructor(private size: number) {}
+
+  add(item: T) {
+    this.seen++;
+    if (this.items.length < this.size) {
+      this.items.push(item);
+      return;
+    }
+    const index = Math.floor(Math.random() * this.seen);
+    if (index < this.size) {
+      this.items[index] = item;
+    }
+  }
+
+  get isComplete() {
+    return this.seen <= this.size;
+  }
+}
+
+/**
+ * The last `size` items of a stream, in the order they were added.
+ */
+class RecentItems<T> {
+  private items: T[] = [];
+
+  constructor(private size: number) {}
+
+  add(item: T) {
+    this.items.push(item);
+    // Trimmed in batches, so adding an item stays cheap
+    if (this.items.length >= 2 * this.size) {
+      this.items = this.items.slice(-this.size);
+    }
+  }
+
+  getItems() {
+    return this.items.slice(-this.size);
+  }
+}
+
+// Summary of the samples in one step of the time range, calculated by the server
+export type AggregatedBucket = {
+  time: number;
+  count: number;
+  mean: number;
+  min: number;
+  max: number;
+};
+
+export type SampledPoint = {
+  time: number;
+  value: number;
+  // Duration the value held in time-weighted mode, or the number of samples it stands for
+  // in aggregated data
+  weight?: number;
+};
+
+export type AccumulatorOptions = {
+  resolution: number;
+  // Tells why a value is left out, or null when it is kept
+  filter?: ValueFilter;
+  // Keeps a sample of the left out values, to show them next to the distribution
+  keepExcluded?: boolean;
+  // Only keeps the samples taken while the gate was open
+  gate?: Gate | null;
+  specificationLimits?: SpecificationLimits;
+  // Weighs every value by how long it held until the next value, or until `end` for the last one
+  timeWeighting?: { unit: DurationUnit; end: number } | null;
+  // Number of points kept for the analyses that need the individual values
+  sampleSize?: number;
+  // Number of the most recent points kept in order, for the analyses that follow the points
+  // in time
+  recentSize?: number;
+};
+
+/**
+ * Folds the points of a metric into bounded memory while they stream in, in chronological
+ * order. Moments, capability and the histogram are exact, the individual points are kept
+ * as a uniform sample once there are more than `sampleSize` of them.
+ */
+export class DistributionAccumulator {
+  // Points received, before ignored values are left out
+  received = 0;
+  // Set once server-side aggregated buckets were added, the results are approximate then
+  aggregated = false;
+  readonly statistics = new RunningStatistics();
+  readonly weightedStatistics: RunningStatistics | null;
+  readonly histogram: OnlineHistogram;
+  readonly digest = new TDigest();
+  readonly sample: ReservoirSample<SampledPoint>;
+  readonly recent: RecentItems<SampledPoint> | null;
+  // Number of left out samples per filter
+  readonly excluded: ExclusionCounts = {};
+  readonly excludedSample: ReservoirSample<SampledPoint> | null;
+  // Number, or total duration in time-weighted mode, of the left out values
+  private excludedTotal = 0;
+  private movingRangeSum = 0;
+  private outOfSpecification = 0;
+  private previousValue: number | null = null;
+  private pending: { time: number; value: number } | null = null;
+
+  constructor(private options: AccumulatorOptions) {
+    this.weightedStatistics = options.timeWeighting
+      ? new RunningStatistics()
+      : null;
+    this.histogram = new OnlineHistogram(options.resolution);
+    this.sample = new ReservoirSample(options.sampleSize ?? 100000);
+    this.recent = options.recentSize
+      ? new RecentItems(options.recentSize)
+      : null;
+    this.excludedSample = options.keepExcluded
+      ? new ReservoirSample(options.sampleSize ?? 100000)
+      : null;
+  }
+
+  /**
+   * @param points Points in chronological order, following the points added before
+   */
+  add(points: { time: number; value: number }[]) {
+    for (const point of points) {
+      this.received++;
+      if (!this.options.timeWeighting) {
+        this.foldGated(point);
+        continue;
+      }
+      // A value's duration is only known once the next value arrives
+      if (this.pending) {
+        this.foldGated(this.pending, point.time - this.pending.time);
+      }
+      this.pending = point;
+    }
+  }
+
+  /**
+   * Folds server-side aggregated buckets. Every bucket stands in for its samples with its
+   * minimum, maximum and mean, weighted so the count, mean and extremes of the bucket are kept.
+   * @param stepMilliseconds Duration of a bucket, used in time-weighted mode
+   */
+  addBuckets(buckets: AggregatedBucket[], stepMilliseconds: number) {
+    this.aggregated = true;
+    const { gate, timeWeighting } = this.options;
+    for (const bucket of buckets) {
+      this.received += bucket.count;
+      const duration = Math.min(
+        stepMilliseconds,
+        (timeWeighting?.end ?? Infinity) - bucket.time,
+      );
+      // Without the individual samples, assume they are spread evenly over the step
+      const openShare =
+        gate && duration > 0
+          ? gate.getOpenDuration(bucket.time, bucket.time + duration) / duration
+          : 1;
+      if (!(openShare > 0)) {
+        this.exclude(
+          { time: bucket.time, value: bucket.mean },
+          'gate',
+          bucket.count,
+          duration,
+        );
+        continue;
+      }
+      for (const { value, count } of representBucket(bucket)) {
+        this.fold(
+          { time: bucket.time, value },
+          count * openShare,
+          (duration * count * openShare) / bucket.count,
+        );
+      }
+    }
+  }
+
+  /**
+   * Folds the last point in time-weighted mode, which holds until the end of the range.
+   */
+  finish() {
+    if (this.pending && this.options.timeWeighting) {
+      this.foldGated(
+        this.pending,
+        this.options.timeWeighting.end - this.pending.time,
+      );
+      this.pending = null;
+    }
+  }
+
+  /**
+   * Leaves out the samples taken while the gate was closed. In time-weighted mode only the part
+   * of the duration during which the gate was open counts.
+   */
+  private foldGated(point: { time: number; value: number }, duration?: number) {
+    const gate = this.options.gate;
+    if (gate && duration) {
+      const openDuration = gate.getOpenDuration(
+        point.time,
+        point.time + duration,
+      );
+      if (openDuration > 0) {
+        this.fold(point, 1, openDuration);
+      } else {
+        this.exclude(point, 'gate', 1, duration);
+      }
+      return;
+    }
+    // Values without a duration count when the gate was open at their time
+    if (gate && !gate.isOpen(point.time)) {
+      this.exclude(point, 'gate', 1, duration);
+      return;
+    }
+    this.fold(point, 1, duration);
+  }
+
+  /**
+   * @param count Number of samples the point stands for
+   * @param duration Duration the value held, used in time-weighted mode
+   */
+  private fold(
+    point: { time: number; value: number },
+    count = 1,
+    duration?: number,
+  ) {
+    const durationWeight =
+      duration !== undefined && this.options.timeWeighting
+        ? Math.max(0, duration) / this.options.timeWeighting.unit.milliseconds
+        : undefined;
+
+    const reason = this.options.filter?.(point.value) ?? null;
+    if (reason) {
+      this.exclude(point, reason, count, duration);
+      return;
+    }
+
+    this.statistics.add(point.value, count);
+    this.weightedStatistics?.add(point.value, durationWeight);
+    this.histogram.add(point.value, durationWeight ?? count);
+    this.digest.add(point.value, count);
+    if (this.previousValue !== null) {
+      this.movingRangeSum += Math.abs(point.value - this.previousValue);
+    }
+    this.previousValue = point.value;
+    if (
+      this.options.specificationLimits &&
+      isOutOfSpecification(point.value, this.options.specificationLimits)
+    ) {
+      this.outOfSpecification += count;
+    }
+
+    const weight = durationWeight ?? (this.aggregated ? count : undefined);
+    const kept = weight === undefined ? point : { ...point, weight };
+    this.sample.add(kept);
+    this.recent?.add(kept);
+  }
+
+  private exclude(
+    point: { time: number; value: number },
+    reason: ExclusionReason,
+    count: number,
+    duration?: number,
+  ) {
+    const weight =
+      duration !== undefined && this.options.timeWeighting
+        ? Math.max(0, duration) / this.options.timeWeighting.unit.milliseconds
+        : count;
+    this.excluded[reason] = (this.excluded[reason] ?? 0) + count;
+    this.excludedTotal += weight;
+    this.excludedSample?.add({ ...point, weight });
+  }
+
+  /**
+   * The values of the sampled left out points, with weights that add up to the number or
+   * total duration of all left out values.
+   */
+  getExcluded(): { values: number[]; weights: number[] } {
+    const items = this.excludedSample?.items ?? [];
+    const sampledTotal = items.reduce(
+      (acc, point) => acc + (point.weight ?? 1),
+      0,
+    );
+    const scale = sampledTotal > 0 ? this.excludedTotal / sampledTotal : 0;
+    return {
+      values: items.map((point) => point.value),
+      weights: items.map((point) => (point.weight ?? 1) * scale),
+    };
+  }
+
+  // The number of samples, including the samples that aggregated buckets stand for
+  get count() {
+    return this.statistics.totalWeight;
+  }
+
+  // The number of values, or their total duration in time-weighted mode
+  get total() {
+    return this.weightedStatistics?.totalWeight ?? this.statistics.count;
+  }
+
+  get mean() {
+    return (this.weightedStatistics ?? this.statistics).mean;
+  }
+
+  // Population standard deviation, time-weighted in time-weighted mode
+  get standardDeviation() {
+    return Math.sqrt((this.weightedStatistics ?? this.statistics).variance);
+  }
+
+  get isSampled() {
+    return !this.sample.isComplete;
+  }
+
+  /**
+   * The kept points in chronological order, all points when the data was not sampled.
+   */
+  getSample(): SampledPoint[] {
+    return [...this.sample.items].sort((a, b) => a.time - b.time);
+  }
+
+  /**
+   * The most recent kept points in chronological order, when `recentSize` was set.
+   */
+  getRecentPoints(): SampledPoint[] {
+    return this.recent?.getItems() ?? [];
+  }
+
+  getCapabilitySummary(): CapabilitySummary {
+    return {
+      n: this.count,
+      mean: this.statistics.mean,
+      overallStandardDeviation: Math.sqrt(this.statistics.sampleVariance),
+      // Consecutive bucket values say nothing about the short term variation
+      movingRangeSum: this.aggregated ? NaN : this.movingRangeSum,
+      outOfSpecification: this.outOfSpecification,
+    };
+  }
+
+  getSampleSummary(): SampleSummary {
+    return {
+      n: this.count,
+      mean: this.statistics.mean,
+      variance: this.statistics.sampleVariance,
+    };
+  }
+
+  /**
+   * Creates the histogram of the accumulated values.
+   * @param pooledValues Values of other series that have to fit in the same bins
+   */
+  createHistogram(
+    options: BinningOptions,
+    pooledValues: number[] = [],
+  ): Histogram {
+    const pooled = new RunningStatistics();
+    pooledValues.forEach((value) => pooled.add(value));
+    const statistics = this.statistics.merge(pooled);
+    if (!statistics.totalWeight) {
+      return { bins: [], binWidth: 0 };
+    }
+
+    const [q1, q3] = this.getQuartiles(pooledValues);
+    const width = resolveBinWidth(
+      {
+        n: statistics.totalWeight,
+        min: statistics.min,
+        max: statistics.max,
+        standardDeviation: Math.sqrt(statistics.sampleVariance),
+        interquartileRange: q3 - q1,
+      },
+      options,
+    );
+    return this.histogram.toHistogram(width, statistics.min, statistics.max);
+  }
+
+  // Exact while all raw points are kept, estimated by the t-digest otherwise
+  private getQuartiles(pooledValues: number[]) {
+    if (!this.isSampled && !this.aggregated) {
+      const values = [
+        ...this.sample.items.map((point) => point.value),
+        ...pooledValues,
+      ].sort((a, b) => a - b);
+      return [quantileSorted(values, 0.25), quantileSorted(values, 0.75)];
+    }
+    const digest = this.digest.clone();
+    pooledValues.forEach((value) => digest.add(value));
+    return [digest.quantile(0.25), digest.quantile(0.75)];
+  }
+}
+
+/**
+ * Represents a bucket by its minimum, maximum and mean. The extremes share two samples
+ * in such a way that the mean of the bucket does not change.
+ */
+function representBucket({ count, mean, min, max }: AggregatedBucket) {
+  if (count < 2 || !(max > min)) {
+    return [{ value: mean, count }];
+  }
+  const center = Math.min(max, Math.max(min, mean));
+  return [
+    { value: min, count: (2 * (max - center)) / (max - min) },
+    { value: max, count: (2 * (center - min)) / (max - min) },
+    { value: center, count: count - 2 },
+  ].filter((point) => point.count > 0);
+}
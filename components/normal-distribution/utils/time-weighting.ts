@@ -0,0 +1,39 @@
+export type DurationUnit = {
+  label: string;
+  milliseconds: number;
+};
+
+const DURATION_UNITS: DurationUnit[] = [
+  { label: 's', milliseconds: 1000 },
+  { label: 'min', milliseconds: 60 * 1000 },
+  { label: 'h', milliseconds: 60 * 60 * 1000 },
+  { label: 'd', milliseconds: 24 * 60 * 60 * 1000 },
+];
+
+/**
+ * Weighs every value of a tag that is logged on change by how long it held: the time until
+ * the next point, or until the end of the time range for the last point.
+ * @param data Points in chronological order
+ * @param end End of the time range in milliseconds
+ * @returns The duration in milliseconds per point
+ */
+export function calculateTimeWeights(
+  data: { time: number; value: number }[],
+  end: number,
+): number[] {
+  return data.map((point, i) =>
+    Math.max(0, (i < data.length - 1 ? data[i + 1].time : end) - point.time),
+  );
+}
+
+/**
+ * Picks the largest unit in which the total duration is still at least two units long.
+ */
+export function getDurationUnit(totalMilliseconds: number): DurationUnit {
+  return (
+    [...DURATION_UNITS]
+      .reverse()
+      .find((unit) => totalMilliseconds >= 2 * unit.milliseconds) ??
+    DURATION_UNITS[0]
+  );
+}
@@ -0,0 +1,231 @@
+export type Cell = string | number | null;
+
+export type Sheet = {
+  name: string;
+  rows: Cell[][];
+};
+
+const encoder = new TextEncoder();
+
+/**
+ * Writes a workbook with one sheet per table, as an uncompressed XLSX (Office Open XML) file.
+ * Only plain strings and numbers are written, there is no styling.
+ */
+export function createXlsx(sheets: Sheet[]) {
+  const names = getSheetNames(sheets);
+  return createZip([
+    {
+      path: '[Content_Types].xml',
+      content: xml(
+        '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+          '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+          '<Default Extension="xml" ContentType="application/xml"/>' +
+          '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+          sheets
+            .map(
+              (_, i) =>
+                `<Override PartName="/xl/worksheets/sheet${i + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`,
+            )
+            .join('') +
+          '</Types>',
+      ),
+    },
+    {
+      path: '_rels/.rels',
+      content: xml(
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+          '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+          '</Relationships>',
+      ),
+    },
+    {
+      path: 'xl/workbook.xml',
+      content: xml(
+        '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets>' +
+          names
+            .map(
+              (name, i) =>
+                `<sheet name="${escapeXml(name)}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`,
+            )
+            .join('') +
+          '</sheets></workbook>',
+      ),
+    },
+    {
+      path: 'xl/_rels/workbook.xml.rels',
+      content: xml(
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+          sheets
+            .map(
+              (_, i) =>
+                `<Relationship Id="rId${i + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${i + 1}.xml"/>`,
+            )
+            .join('') +
+          '</Relationships>',
+      ),
+    },
+    ...sheets.map((sheet, i) => ({
+      path: `xl/worksheets/sheet${i + 1}.xml`,
+      content: xml(
+        '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetData>' +
+          sheet.rows.map(toRow).join('') +
+          '</sheetData></worksheet>',
+      ),
+    })),
+  ]);
+}
+
+function xml(body: string) {
+  return encoder.encode(
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n${body}`,
+  );
+}
+
+function escapeXml(text: string) {
+  return (
+    text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      // Control characters are not allowed in XML 1.0
+      .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+  );
+}
+
+// Sheet names are limited to 31 characters, cannot hold []:*?/\ and must be unique
+function getSheetNames(sheets: Sheet[]) {
+  const used = new Set<string>();
+  return sheets.map(({ name }, i) => {
+    const base =
+      name.replace(/[[\]:*?/\\]/g, ' ').slice(0, 31) || `Sheet${i + 1}`;
+    let unique = base;
+    for (let n = 2; used.has(unique.toLowerCase()); n++) {
+      unique = `${base.slice(0, 31 - `${n}`.length - 1)} ${n}`;
+    }
+    used.add(unique.toLowerCase());
+    return unique;
+  });
+}
+
+function toRow(cells: Cell[], rowIndex: number) {
+  const row = rowIndex + 1;
+  const content = cells
+    .map((cell, columnIndex) => {
+      const reference = `${toColumnName(columnIndex)}${row}`;
+      if (typeof cell === 'number') {
+        // Infinite and NaN values have no representation in a numeric cell
+        return Number.isFinite(cell)
+          ? `<c r="${reference}"><v>${cell}</v></c>`
+          : '';
+      }
+      if (cell === null || cell === '') {
+        return '';
+      }
+      return `<c r="${reference}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(cell)}</t></is></c>`;
+    })
+    .join('');
+  return `<row r="${row}">${content}</row>`;
+}
+
+// 0 → A, 25 → Z, 26 → AA
+function toColumnName(index: number) {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
+
+type ZipEntry = {
+  path: string;
+  content: Uint8Array;
+};
+
+/**
+ * Packs the entries into a ZIP archive without compression.
+ */
+function createZip(entries: ZipEntry[]) {
+  const localParts: Uint8Array[] = [];
+  const centralParts: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const { path, content } of entries) {
+    const name = encoder.encode(path);
+    const crc = crc32(content);
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true); // Local file header signature
+    local.setUint16(4, 20, true); // Version needed to extract
+    local.setUint16(6, 0x0800, true); // Names are UTF-8
+    local.setUint16(8, 0, true); // Stored, no compression
+    local.setUint16(10, 0, true); // Modification time
+    local.setUint16(12, 0x21, true); // Modification date, 1980-01-01
+    local.setUint32(14, crc, true);
+    local.setUint32(18, content.length, true); // Compressed size
+    local.setUint32(22, content.length, true); // Uncompressed size
+    local.setUint16(26, name.length, true);
+    local.setUint16(28, 0, true); // Extra field length
+    localParts.push(new Uint8Array(local.buffer), name, content);
+
+    const central = new DataView(new ArrayBuffer(46));
+    central.setUint32(0, 0x02014b50, true); // Central directory header signature
+    central.setUint16(4, 20, true); // Version made by
+    central.setUint16(6, 20, true);
+    central.setUint16(8, 0x0800, true);
+    central.setUint16(10, 0, true);
+    central.setUint16(12, 0, true);
+    central.setUint16(14, 0x21, true);
+    central.setUint32(16, crc, true);
+    central.setUint32(20, content.length, true);
+    central.setUint32(24, content.length, true);
+    central.setUint16(28, name.length, true);
+    // Extra field, comment, disk number and attributes stay zero
+    central.setUint32(42, offset, true); // Offset of the local header
+    centralParts.push(new Uint8Array(central.buffer), name);
+
+    offset += 30 + name.length + content.length;
+  }
+
+  const centralSize = centralParts.reduce((acc, part) => acc + part.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true); // End of central directory signature
+  end.setUint16(8, entries.length, true); // Entries on this disk
+  end.setUint16(10, entries.length, true); // Total entries
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true); // Offset of the central directory
+
+  return concat([...localParts, ...centralParts, new Uint8Array(end.buffer)]);
+}
+
+function concat(parts: Uint8Array[]) {
+  const result = new Uint8Array(
+    parts.reduce((acc, part) => acc + part.length, 0),
+  );
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+let crcTable: Uint32Array | null = null;
+
+function crc32(data: Uint8Array) {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
@@ -0,0 +1,5 @@
+// Modules that Vite bundles into a worker script, inlined into the component
+declare module '*?worker&inline' {
+  const WorkerConstructor: new () => Worker;
+  export default WorkerConstructor;
+}